@@ -1,12 +1,18 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { ProjectState, AppSettings, FrameData, Rect } from './types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ProjectState, AppSettings, AnimationTag, CollisionBox, FrameData, NineSlice, Pivot, Point, ProcessingProgress, Rect } from './types';
 import Sidebar from './components/Sidebar';
 import FrameList from './components/FrameList';
 import CanvasWorkspace from './components/CanvasWorkspace';
 import PreviewModal from './components/PreviewModal';
-import { applyColorKeysToImageData, calculateGridRects, extractFrame, detectIslands, hexToRgb } from './services/processor';
+import { applyColorKeySettings, calculateGridRects, detectGrid } from './services/processor';
 import { saveProject, loadProject } from './services/db';
-import JSZip from 'jszip';
+import { buildExportZip } from './services/exporter';
+import { parseAtlasMetadata } from './services/importer';
+import { ProcessingPool } from './services/workerPool';
+import { FrameCache, processingHash } from './services/frameCache';
+import { findDuplicates } from './services/duplicates';
+import { collisionPolygons } from './services/polygon';
+import { nextAnimationName } from './services/animations';
 
 const DEFAULT_SETTINGS: AppSettings = {
   mode: 'grid',
@@ -20,18 +26,46 @@ const DEFAULT_SETTINGS: AppSettings = {
   },
   islands: {
     minWidth: 5,
-    minHeight: 5
+    minHeight: 5,
+    alphaThreshold: 0,
+    connectivity: 4,
+    mergeDistance: 0,
+    order: 'rows'
   },
   processing: {
     autoTrim: false,
     colorKeyEnabled: false,
     colorKeyColors: ['#ff00ff'],
+    colorKeyMode: 'global',
+    colorKeyMetric: 'rgb',
     colorKeyTolerance: 10,
-    colorKeyFeather: 0
+    colorKeyFeather: 0,
+    colorKeyDespill: 0,
+    colorKeyChoke: 0
   },
   export: {
     fps: 12,
-    prefix: 'sprite'
+    prefix: 'sprite',
+    loop: true,
+    layout: 'frames',
+    format: 'spriteslice',
+    asepriteLayout: 'hash',
+    cssAnimation: true,
+    animationPerRow: false,
+    dedupe: true,
+    dedupeTolerance: 0,
+    pivot: { x: 0.5, y: 0.5 },
+    polygon: {
+      enabled: false,
+      tolerance: 1.5,
+      shape: 'outline',
+      maxVertices: 16
+    },
+    atlas: {
+      maxSize: 2048,
+      padding: 2,
+      powerOfTwo: false
+    }
   }
 };
 
@@ -127,10 +161,49 @@ type HistorySnapshot = {
   manualRects: Rect[];
   islandRects: Rect[];
   hiddenRectIds: string[];
+  animations: AnimationTag[];
+  frameDurations: Record<string, number>;
+  pivots: Record<string, Pivot>;
+  collisionBoxes: Record<string, CollisionBox[]>;
+  borders: Record<string, NineSlice>;
   selectedRectId: string | null;
   imageBlob: Blob | null;
 };
 
+const rectKey = (r: Rect) => `${r.x},${r.y},${r.w},${r.h}`;
+
+// Data whose rect is gone is parked under its geometry instead of being
+// dropped, so settings that are changed and then changed back get it back.
+// No rect id starts with "@", and lookups by frame id never see parked data.
+const parkedKey = (key: string) => `@${key}`;
+
+// Old id -> new id for rects that were regenerated, matching on geometry:
+// ids kept with the same geometry map to themselves, vanished ones to their
+// parked key, and parked keys to the new rect with that geometry
+const matchRectIds = (prev: Map<string, string>, next: Map<string, string>) => {
+  const idByKey = new Map<string, string>();
+  next.forEach((key, id) => {
+    if (!idByKey.has(key)) idByKey.set(key, id);
+  });
+  const remap = new Map<string, string>();
+  prev.forEach((key, id) => remap.set(id, next.get(id) === key ? id : idByKey.get(key) ?? parkedKey(key)));
+  idByKey.forEach((id, key) => remap.set(parkedKey(key), id));
+  return remap;
+};
+
+const remapId = (id: string, remap: Map<string, string>) => remap.get(id) ?? id;
+
+// Parked entries are written first, so live data wins when both land on one id
+const remapRecord = <T,>(record: Record<string, T>, remap: Map<string, string>) => {
+  const entries = Object.entries(record);
+  const next: Record<string, T> = {};
+  [...entries.filter(([id]) => id.startsWith('@')), ...entries.filter(([id]) => !id.startsWith('@'))]
+    .forEach(([id, value]) => {
+      next[remapId(id, remap)] = value;
+    });
+  return next;
+};
+
 const App: React.FC = () => {
   // State
   const [image, setImage] = useState<HTMLImageElement | null>(null);
@@ -139,16 +212,29 @@ const App: React.FC = () => {
   const [manualRects, setManualRects] = useState<Rect[]>([]);
   const [islandRects, setIslandRects] = useState<Rect[]>([]);
   const [hiddenRectIds, setHiddenRectIds] = useState<Set<string>>(new Set());
+  const [animations, setAnimations] = useState<AnimationTag[]>([]);
+  const [frameDurations, setFrameDurations] = useState<Record<string, number>>({});
+  const [pivots, setPivots] = useState<Record<string, Pivot>>({});
+  const [collisionBoxes, setCollisionBoxes] = useState<Record<string, CollisionBox[]>>({});
+  const [borders, setBorders] = useState<Record<string, NineSlice>>({});
   const [generatedFrames, setGeneratedFrames] = useState<FrameData[]>([]);
   const [selectedRectId, setSelectedRectId] = useState<string | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [showPreview, setShowPreview] = useState(false);
   const [isPickingColor, setIsPickingColor] = useState(false);
   const [historyIndex, setHistoryIndex] = useState(-1);
   const [historyLength, setHistoryLength] = useState(0);
+  const [gridConfidence, setGridConfidence] = useState<number | null>(null);
 
   const historyRef = useRef<HistorySnapshot[]>([]);
   const isRestoringRef = useRef(false);
+  const poolRef = useRef<ProcessingPool | null>(null);
+  const frameCacheRef = useRef(new FrameCache());
+  // Geometry of each rect from the last generation, by id. Grid and island ids
+  // are renumbered when they are regenerated, so per-frame data follows geometry.
+  const rectGeometryRef = useRef(new Map<string, string>());
+  const remapPendingRef = useRef(false);
 
   // Load from DB on mount
   useEffect(() => {
@@ -162,9 +248,20 @@ const App: React.FC = () => {
              ...prev.processing,
              ...project.settings.processing,
              colorKeyColors: project.settings.processing.colorKeyColors ?? prev.processing.colorKeyColors
+           },
+           export: {
+             ...prev.export,
+             ...project.settings.export,
+             atlas: { ...prev.export.atlas, ...project.settings.export?.atlas },
+             polygon: { ...prev.export.polygon, ...project.settings.export?.polygon }
            }
         }));
         setManualRects(project.manualRects);
+        setAnimations(project.animations ?? []);
+        setFrameDurations(project.frameDurations ?? {});
+        setPivots(project.pivots ?? {});
+        setCollisionBoxes(project.collisionBoxes ?? {});
+        setBorders(project.borders ?? {});
         if (project.imageBlob) {
           const url = URL.createObjectURL(project.imageBlob);
           const img = new Image();
@@ -183,9 +280,14 @@ const App: React.FC = () => {
     manualRects,
     islandRects,
     hiddenRectIds: Array.from(hiddenRectIds),
+    animations,
+    frameDurations,
+    pivots,
+    collisionBoxes,
+    borders,
     selectedRectId,
     imageBlob
-  }), [settings, manualRects, islandRects, hiddenRectIds, selectedRectId, imageBlob]);
+  }), [settings, manualRects, islandRects, hiddenRectIds, animations, frameDurations, pivots, collisionBoxes, borders, selectedRectId, imageBlob]);
 
   const serializeSnapshot = (s: HistorySnapshot) => {
     const blobSig = s.imageBlob ? `${s.imageBlob.size}:${s.imageBlob.type}` : 'none';
@@ -194,6 +296,11 @@ const App: React.FC = () => {
       manualRects: s.manualRects,
       islandRects: s.islandRects,
       hiddenRectIds: s.hiddenRectIds,
+      animations: s.animations,
+      frameDurations: s.frameDurations,
+      pivots: s.pivots,
+      collisionBoxes: s.collisionBoxes,
+      borders: s.borders,
       selectedRectId: s.selectedRectId,
       imageBlob: blobSig
     });
@@ -215,7 +322,11 @@ const App: React.FC = () => {
 
   useEffect(() => {
     if (isRestoringRef.current) return;
-    const timer = setTimeout(() => pushHistory(createSnapshot()), 300);
+    const timer = setTimeout(() => {
+      // Wait until per-frame data is re-keyed, so no snapshot pairs new
+      // settings with data keyed by the old ids
+      if (!remapPendingRef.current) pushHistory(createSnapshot());
+    }, 300);
     return () => clearTimeout(timer);
   }, [createSnapshot, pushHistory]);
 
@@ -225,17 +336,54 @@ const App: React.FC = () => {
       saveProject({
         imageBlob,
         settings,
-        manualRects
+        manualRects,
+        animations,
+        frameDurations,
+        pivots,
+        collisionBoxes,
+        borders
       });
     }, 1000);
     return () => clearTimeout(timer);
-  }, [imageBlob, settings, manualRects]);
+  }, [imageBlob, settings, manualRects, animations, frameDurations, pivots, collisionBoxes, borders]);
 
-  // Clear hidden rects when grid/islands config changes to avoid ID mismatch ghosts
+  // Clear hidden rects when grid/islands config changes to avoid ID mismatch ghosts;
+  // per-frame data is moved over once the new rects exist (see remapFrameIds)
   useEffect(() => {
     setHiddenRectIds(new Set());
+    remapPendingRef.current = true;
   }, [settings.grid, settings.islands, settings.mode]);
 
+  // Re-key tags, durations, pivots, boxes and borders from the previous rects
+  // to the new ones; data whose rect no longer exists is parked, and only
+  // deleting frames or clearing removes it. Always sets state, which also
+  // lets the held-back history snapshot through.
+  const remapFrameIds = (prev: Map<string, string>, next: Map<string, string>) => {
+    const remap = matchRectIds(prev, next);
+    setAnimations(tags => tags.map(tag => ({
+      ...tag,
+      frameIds: tag.frameIds.map(id => remapId(id, remap))
+    })));
+    setFrameDurations(d => remapRecord(d, remap));
+    setPivots(p => remapRecord(p, remap));
+    setCollisionBoxes(b => remapRecord(b, remap));
+    setBorders(b => remapRecord(b, remap));
+    setSelectedRectId(id => {
+      const to = id ? remapId(id, remap) : id;
+      return to?.startsWith('@') ? null : to;
+    });
+  };
+
+  // Per-frame data belongs to one sheet, so a new sheet starts without it
+  const clearFrameData = () => {
+    setAnimations([]);
+    setFrameDurations({});
+    setPivots({});
+    setCollisionBoxes({});
+    setBorders({});
+    rectGeometryRef.current = new Map();
+  };
+
   // Handle Image Upload
   const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -246,13 +394,50 @@ const App: React.FC = () => {
         setImage(img);
         setImageBlob(file);
         setManualRects([]); // Reset manual rects on new image
+        setGridConfidence(null);
         setIslandRects([]); // Reset islands
         setHiddenRectIds(new Set());
+        clearFrameData();
       };
       img.src = url;
     }
   };
 
+  // Import a sheet together with exported metadata and rebuild its slices
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    const imageFile = files.find(f => f.type.startsWith('image/'));
+    const metaFile = files.find(f => f.name.toLowerCase().endsWith('.json'));
+    if (!imageFile || !metaFile) {
+      setError('Select both the sprite sheet image and its JSON metadata file.');
+      return;
+    }
+
+    let rects: Rect[];
+    try {
+      rects = parseAtlasMetadata(await metaFile.text());
+    } catch (err) {
+      setError(`Could not import metadata: ${err instanceof Error ? err.message : err}`);
+      return;
+    }
+
+    const url = URL.createObjectURL(imageFile);
+    const img = new Image();
+    img.onload = () => {
+      setError(null);
+      setImage(img);
+      setImageBlob(imageFile);
+      setSettings(prev => ({ ...prev, mode: 'manual' }));
+      setManualRects(rects);
+      setIslandRects([]);
+      setHiddenRectIds(new Set());
+      setSelectedRectId(null);
+      clearFrameData();
+    };
+    img.src = url;
+  };
+
   const handleDeleteFrames = useCallback((ids: string[]) => {
     // Optimistic update for UI responsiveness
     setGeneratedFrames(frames => frames.filter(f => !ids.includes(f.id)));
@@ -299,8 +484,15 @@ const App: React.FC = () => {
     setManualRects(snapshot.manualRects);
     setIslandRects(snapshot.islandRects);
     setHiddenRectIds(new Set(snapshot.hiddenRectIds));
+    setAnimations(snapshot.animations);
+    setFrameDurations(snapshot.frameDurations);
+    setPivots(snapshot.pivots);
+    setCollisionBoxes(snapshot.collisionBoxes);
+    setBorders(snapshot.borders);
     setSelectedRectId(snapshot.selectedRectId);
     setGeneratedFrames([]);
+    // The snapshot's data is already keyed by the ids its settings produce
+    rectGeometryRef.current = new Map();
     setIsPickingColor(false);
 
     if (snapshot.imageBlob) {
@@ -362,12 +554,29 @@ const App: React.FC = () => {
     return () => window.removeEventListener('keydown', onKeyDown);
   }, [isPickingColor]);
 
+  // Background workers for slicing and the frame cache; kept for the lifetime of the app
+  useEffect(() => {
+    const pool = new ProcessingPool();
+    const frameCache = frameCacheRef.current;
+    poolRef.current = pool;
+    return () => {
+      pool.dispose();
+      poolRef.current = null;
+      frameCache.clear();
+    };
+  }, []);
+
   // Generate Frames & Handle Island Detection
   useEffect(() => {
-    if (!image) return;
+    const pool = poolRef.current;
+    if (!image || !pool) {
+      setProgress(null);
+      remapPendingRef.current = false;
+      return;
+    }
 
     let isActive = true;
-    setIsProcessing(true);
+    setProgress({ stage: 'extracting', done: 0, total: 0 });
 
     const generate = async () => {
       // 1. Determine source rects
@@ -378,32 +587,17 @@ const App: React.FC = () => {
       } else if (settings.mode === 'islands') {
         // Run island detection if not already cached or if image changed
         if (islandRects.length === 0) {
-            const canvas = document.createElement('canvas');
-            canvas.width = image.width;
-            canvas.height = image.height;
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-               ctx.drawImage(image, 0, 0);
-               const imageData = ctx.getImageData(0, 0, image.width, image.height);
-               if (settings.processing.colorKeyEnabled) {
-                 const rgbs = settings.processing.colorKeyColors
-                   .map(hexToRgb)
-                   .filter((c): c is { r: number; g: number; b: number } => !!c);
-                 if (rgbs.length > 0) {
-                   applyColorKeysToImageData(
-                     imageData,
-                     rgbs,
-                     settings.processing.colorKeyTolerance,
-                     settings.processing.colorKeyFeather
-                   );
-                 }
-               }
-               const detected = detectIslands(imageData, settings.islands.minWidth, settings.islands.minHeight);
-               if (isActive) setIslandRects(detected);
-               rects = detected;
-            }
+          setProgress({ stage: 'detecting', done: 0, total: 0 });
+          const detected = await pool.detectIslands(image, settings);
+          if (!detected || !isActive) return;
+          remapPendingRef.current = true;
+          // Storing the islands re-runs this effect, which then extracts them
+          if (detected.length > 0) {
+            setIslandRects(detected);
+            return;
+          }
         } else {
-            rects = islandRects;
+          rects = islandRects;
         }
       }
       
@@ -411,37 +605,118 @@ const App: React.FC = () => {
       // Note: in 'manual' mode, the rects array above is empty, so this works for that too.
       rects = [...rects, ...manualRects];
 
+      const geometry = new Map(rects.map(r => [r.id, rectKey(r)]));
+      if (remapPendingRef.current) {
+        remapPendingRef.current = false;
+        remapFrameIds(rectGeometryRef.current, geometry);
+      }
+      rectGeometryRef.current = geometry;
+
       // Filter out hidden/deleted rects
       rects = rects.filter(r => !hiddenRectIds.has(r.id));
 
-      // 2. Process each rect (slice, trim, key)
-      const newFrames: FrameData[] = [];
-      
-      // Process all rects
-      for (const rect of rects) {
-        const frame = await extractFrame(image, rect, settings);
-        if (frame) {
-          newFrames.push(frame);
-        }
-      }
+      // 2. Process new or changed rects (slice, trim, key) on the workers
+      const cache = frameCacheRef.current;
+      const hash = processingHash(settings.processing, settings.export.polygon.enabled);
+      cache.setImage(image);
+      const missing = cache.missing(rects, hash);
+      setProgress({ stage: 'extracting', done: 0, total: missing.length });
+      const extracted = await pool.extractFrames(image, missing, settings, (done, total) => {
+        if (isActive) setProgress({ stage: 'extracting', done, total });
+      });
+      if (!extracted) return;
+      cache.store(missing, extracted, hash);
 
       if (isActive) {
-        // Clean up old object URLs
-        generatedFrames.forEach(f => URL.revokeObjectURL(f.url));
-        setGeneratedFrames(newFrames);
-        setIsProcessing(false);
+        // Unused cache entries (and their object URLs) are released here
+        setGeneratedFrames(cache.collect(rects, hash));
+        setProgress(null);
+        setError(null);
       }
     };
 
     // Debounce generation
-    const timer = setTimeout(generate, 500);
+    const timer = setTimeout(() => {
+      generate().catch(err => {
+        if (!isActive) return;
+        remapPendingRef.current = false;
+        setProgress(null);
+        setError(`Frame generation failed: ${err instanceof Error ? err.message : err}`);
+      });
+    }, 500);
 
     return () => {
       isActive = false;
       clearTimeout(timer);
+      // Stop workers mid-run instead of letting a stale job finish
+      pool.cancel();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [image, settings.mode, settings.grid, settings.islands, settings.processing, manualRects, islandRects, hiddenRectIds]);
+  }, [image, settings.mode, settings.grid, settings.islands, settings.processing, settings.export.polygon.enabled, manualRects, islandRects, hiddenRectIds]);
+
+  const duplicates = useMemo(
+    () => findDuplicates(generatedFrames, settings.export.dedupeTolerance),
+    [generatedFrames, settings.export.dedupeTolerance]
+  );
+
+  // Collision polygons shown on the canvas, by frame id
+  const polygons = useMemo(() => {
+    const map = new Map<string, Point[][]>();
+    if (!settings.export.polygon.enabled) return map;
+    generatedFrames.forEach(f => map.set(f.id, collisionPolygons(f, settings.export.polygon)));
+    return map;
+  }, [generatedFrames, settings.export.polygon]);
+
+  // Frames with their per-frame edits applied, for preview and export
+  const editedFrames = useMemo(
+    () => generatedFrames.map(f => {
+      if (!(f.id in frameDurations) && !(f.id in pivots) && !(f.id in collisionBoxes) && !(f.id in borders)) return f;
+      return {
+        ...f,
+        duration: frameDurations[f.id],
+        pivot: pivots[f.id],
+        boxes: collisionBoxes[f.id],
+        border: borders[f.id]
+      };
+    }),
+    [generatedFrames, frameDurations, pivots, collisionBoxes, borders]
+  );
+
+  const handleSetPivot = useCallback((rectId: string, pivot: Pivot | undefined) => {
+    setPivots(prev => {
+      const next = { ...prev };
+      if (pivot === undefined) delete next[rectId];
+      else next[rectId] = pivot;
+      return next;
+    });
+  }, []);
+
+  const handleSetBorder = useCallback((rectId: string, border: NineSlice | undefined) => {
+    setBorders(prev => {
+      const next = { ...prev };
+      if (border === undefined) delete next[rectId];
+      else next[rectId] = border;
+      return next;
+    });
+  }, []);
+
+  const handleChangeBoxes = useCallback((rectId: string, boxes: CollisionBox[]) => {
+    setCollisionBoxes(prev => {
+      const next = { ...prev };
+      if (boxes.length === 0) delete next[rectId];
+      else next[rectId] = boxes;
+      return next;
+    });
+  }, []);
+
+  const handleChangeDuration = useCallback((frameId: string, ms: number | undefined) => {
+    setFrameDurations(prev => {
+      const next = { ...prev };
+      if (ms === undefined) delete next[frameId];
+      else next[frameId] = ms;
+      return next;
+    });
+  }, []);
 
   const handleReorderFrames = (fromIndex: number, toIndex: number) => {
     if (fromIndex === toIndex) return;
@@ -454,59 +729,32 @@ const App: React.FC = () => {
     });
   };
 
-  const handleExport = async () => {
-    if (generatedFrames.length === 0) return;
-
-    const zip = new JSZip();
-    const folder = zip.folder("frames");
+  const handleCreateAnimation = (frameIds: string[]) => {
+    if (frameIds.length === 0) return;
+    setAnimations(prev => [...prev, {
+      id: `anim-${Date.now()}`,
+      name: nextAnimationName(prev),
+      frameIds,
+      direction: 'forward',
+      loop: settings.export.loop ? 0 : 1,
+      fps: settings.export.fps
+    }]);
+  };
 
-    // 1. Add Frames
-    generatedFrames.forEach((frame, idx) => {
-      const filename = `${settings.export.prefix}_${idx.toString().padStart(3, '0')}.png`;
-      if (folder) {
-        folder.file(filename, frame.blob);
-      }
-    });
+  const handleUpdateAnimation = (id: string, changes: Partial<AnimationTag>) => {
+    setAnimations(prev => prev.map(a => (a.id === id ? { ...a, ...changes } : a)));
+  };
 
-    // 2. Add Metadata JSON
-    const metadata = {
-      meta: {
-        app: "SpriteSlice",
-        version: "1.0",
-        image: "spritesheet.png",
-        format: "RGBA8888",
-        size: { w: image?.width, h: image?.height },
-        scale: "1"
-      },
-      frames: generatedFrames.map((f, i) => {
-        // Dimensions of the actual exported file (trimmed if trimming enabled)
-        const w = f.trimmedSize?.w ?? f.rect.w;
-        const h = f.trimmedSize?.h ?? f.rect.h;
-        // Offset from original source rect
-        const offX = f.trimOffset?.x ?? 0;
-        const offY = f.trimOffset?.y ?? 0;
-        // Original size
-        const ow = f.originalSize?.w ?? f.rect.w;
-        const oh = f.originalSize?.h ?? f.rect.h;
-        // Is it trimmed?
-        const isTrimmed = !!f.trimOffset && (w !== ow || h !== oh);
-
-        return {
-          filename: `${settings.export.prefix}_${i.toString().padStart(3, '0')}.png`,
-          frame: { x: 0, y: 0, w, h }, 
-          rotated: false,
-          trimmed: isTrimmed,
-          spriteSourceSize: { x: offX, y: offY, w, h },
-          sourceSize: { w: ow, h: oh },
-          sheetRect: f.rect
-        };
-      })
-    };
-    
-    zip.file("data.json", JSON.stringify(metadata, null, 2));
+  const handleExport = async () => {
+    if (generatedFrames.length === 0) return;
 
-    // 3. Generate Download
-    const content = await zip.generateAsync({ type: "blob" });
+    let content: Blob;
+    try {
+      content = await buildExportZip(editedFrames, image, settings, animations);
+    } catch (err) {
+      setError(`Export failed: ${err instanceof Error ? err.message : err}`);
+      return;
+    }
     const link = document.createElement("a");
     link.href = URL.createObjectURL(content);
     link.download = "sprites.zip";
@@ -543,6 +791,24 @@ const App: React.FC = () => {
     setIsPickingColor(false);
   }, [image]);
 
+  const handleAutoDetectGrid = useCallback(() => {
+    if (!image) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(image, 0, 0);
+    const imageData = ctx.getImageData(0, 0, image.width, image.height);
+
+    // Keyed background counts as empty so solid-color gutters are found too
+    applyColorKeySettings(imageData, settings.processing);
+
+    const detected = detectGrid(imageData);
+    setSettings(prev => ({ ...prev, grid: detected.grid }));
+    setGridConfidence(detected.confidence);
+  }, [image, settings.processing]);
+
   const handleAutoDetectEdgeColors = useCallback(() => {
     if (!image) return;
     const detected = detectEdgeColors(image);
@@ -570,19 +836,28 @@ const App: React.FC = () => {
         settings={settings} 
         updateSettings={(s) => {
            // If changing islands settings, clear current islands so they regenerate
-           if (s.islands && (s.islands.minWidth !== settings.islands.minWidth || s.islands.minHeight !== settings.islands.minHeight)) {
+           if (s.islands && s.islands !== settings.islands) {
              setIslandRects([]);
            }
            if (s.processing && settings.mode === 'islands') {
              setIslandRects([]);
            }
+           // Hand-edited grid no longer matches the detection result
+           if (s.grid && s.grid !== settings.grid) {
+             setGridConfidence(null);
+           }
            setSettings(prev => ({...prev, ...s}));
         }} 
         onUpload={handleUpload}
-        isProcessing={isProcessing}
+        onImport={handleImport}
+        progress={progress}
+        error={error}
+        onDismissError={() => setError(null)}
         onPickColor={() => setIsPickingColor(true)}
         onAutoDetectColor={handleAutoDetectColor}
         onAutoDetectEdgeColors={handleAutoDetectEdgeColors}
+        onAutoDetectGrid={handleAutoDetectGrid}
+        gridConfidence={gridConfidence}
         onCancelPickColor={() => setIsPickingColor(false)}
         isPickingColor={isPickingColor}
         hasImage={!!image}
@@ -605,11 +880,23 @@ const App: React.FC = () => {
           onSelectRect={setSelectedRectId}
           isPickingColor={isPickingColor}
           onPickColor={handlePickColor}
+          pivots={pivots}
+          onSetPivot={handleSetPivot}
+          collisionBoxes={collisionBoxes}
+          onChangeBoxes={handleChangeBoxes}
+          polygons={polygons}
+          borders={borders}
+          onSetBorder={handleSetBorder}
         />
       </main>
 
       <FrameList 
         frames={generatedFrames} 
+        duplicates={duplicates}
+        animations={animations}
+        onCreateAnimation={handleCreateAnimation}
+        onUpdateAnimation={handleUpdateAnimation}
+        onDeleteAnimation={(id) => setAnimations(prev => prev.filter(a => a.id !== id))}
         onExport={handleExport}
         onDelete={handleDeleteFrames}
         onReorder={handleReorderFrames}
@@ -618,13 +905,18 @@ const App: React.FC = () => {
            setGeneratedFrames([]);
            setHiddenRectIds(new Set());
            setIslandRects([]);
+           clearFrameData();
         }}
         onTogglePreview={() => setShowPreview(true)}
       />
 
       {showPreview && (
         <PreviewModal 
-          frames={generatedFrames} 
+          frames={editedFrames} 
+          animations={animations}
+          defaultFps={settings.export.fps}
+          defaultPivot={settings.export.pivot}
+          onChangeDuration={handleChangeDuration}
           onClose={() => setShowPreview(false)} 
         />
       )}
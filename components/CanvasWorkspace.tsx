@@ -1,7 +1,8 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { AppSettings, Rect } from '../types';
-import { applyColorKeysToImageData, calculateGridRects, hexToRgb } from '../services/processor';
-import { Minus, Plus, Maximize } from 'lucide-react';
+import { AppSettings, CollisionBox, CollisionBoxType, NineSlice, Pivot, Point, Rect } from '../types';
+import { applyColorKeySettings, calculateGridRects } from '../services/processor';
+import { BOX_COLORS, BOX_TYPES, nextBoxName } from '../services/hitboxes';
+import { Minus, Plus, Maximize, BoxSelect, Grid3x3, Trash2 } from 'lucide-react';
 
 interface CanvasWorkspaceProps {
   image: HTMLImageElement | null;
@@ -15,9 +16,19 @@ interface CanvasWorkspaceProps {
   onSelectRect: (id: string | null) => void;
   isPickingColor: boolean;
   onPickColor: (hex: string) => void;
+  pivots: Record<string, Pivot>;
+  onSetPivot: (rectId: string, pivot: Pivot | undefined) => void;
+  collisionBoxes: Record<string, CollisionBox[]>;
+  onChangeBoxes: (rectId: string, boxes: CollisionBox[]) => void;
+  polygons: Map<string, Point[][]>; // Collision polygons by frame id, in frame pixels
+  borders: Record<string, NineSlice>;
+  onSetBorder: (rectId: string, border: NineSlice | undefined) => void;
 }
 
 type ResizeHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+type EditMode = 'slices' | 'boxes' | 'nineSlice';
+
+const NO_BORDER: NineSlice = { left: 0, top: 0, right: 0, bottom: 0 };
 
 const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
   image,
@@ -30,7 +41,14 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
   selectedRectId,
   onSelectRect,
   isPickingColor,
-  onPickColor
+  onPickColor,
+  pivots,
+  onSetPivot,
+  collisionBoxes,
+  onChangeBoxes,
+  polygons,
+  borders,
+  onSetBorder
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -44,6 +62,14 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
   const [isDraggingPan, setIsDraggingPan] = useState(false);
   const [isDrawing, setIsDrawing] = useState(false);
   const [isResizing, setIsResizing] = useState<ResizeHandle | null>(null);
+  const [isDraggingPivot, setIsDraggingPivot] = useState(false);
+
+  // Collision box annotation: boxes are drawn inside the selected rect
+  const [editMode, setEditMode] = useState<EditMode>('slices');
+  const [boxType, setBoxType] = useState<CollisionBoxType>('hitbox');
+  const [selectedBoxId, setSelectedBoxId] = useState<string | null>(null);
+  const [movingBox, setMovingBox] = useState<{ start: { x: number; y: number }; initial: CollisionBox } | null>(null);
+  const [draggingGuide, setDraggingGuide] = useState<keyof NineSlice | null>(null);
   
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 }); // Screen coords
   const [drawStart, setDrawStart] = useState({ x: 0, y: 0 }); // Image coords
@@ -52,6 +78,10 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
   const [initialResizeRect, setInitialResizeRect] = useState<Rect | null>(null);
   const [processedCanvas, setProcessedCanvas] = useState<HTMLCanvasElement | null>(null);
   
+  useEffect(() => {
+    setSelectedBoxId(null);
+  }, [selectedRectId, editMode]);
+
   useEffect(() => {
     if (isPickingColor) {
       setIsDraggingPan(false);
@@ -77,16 +107,7 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
     }
     ctx.drawImage(image, 0, 0);
     const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const rgbs = settings.processing.colorKeyColors
-      .map(hexToRgb)
-      .filter((c): c is { r: number; g: number; b: number } => !!c);
-    if (rgbs.length > 0) {
-      applyColorKeysToImageData(
-        imageData,
-        rgbs,
-        settings.processing.colorKeyTolerance,
-        settings.processing.colorKeyFeather
-      );
+    if (applyColorKeySettings(imageData, settings.processing)) {
       ctx.putImageData(imageData, 0, 0);
       setProcessedCanvas(canvas);
       return;
@@ -96,8 +117,12 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
     image,
     settings.processing.colorKeyEnabled,
     settings.processing.colorKeyColors,
+    settings.processing.colorKeyMode,
+    settings.processing.colorKeyMetric,
     settings.processing.colorKeyTolerance,
-    settings.processing.colorKeyFeather
+    settings.processing.colorKeyFeather,
+    settings.processing.colorKeyDespill,
+    settings.processing.colorKeyChoke
   ]);
 
   // Helper: Screen to Image coordinates
@@ -172,6 +197,36 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
     });
   };
 
+  const selectedRect = selectedRectId ? getActiveRects().find(r => r.id === selectedRectId) : undefined;
+  const selectedBoxes = selectedRectId ? collisionBoxes[selectedRectId] ?? [] : [];
+
+  const updateBox = (id: string, changes: Partial<CollisionBox>) => {
+    if (!selectedRectId) return;
+    onChangeBoxes(selectedRectId, selectedBoxes.map(b => b.id === id ? { ...b, ...changes } : b));
+  };
+
+  const deleteBox = (id: string) => {
+    if (!selectedRectId) return;
+    onChangeBoxes(selectedRectId, selectedBoxes.filter(b => b.id !== id));
+    if (selectedBoxId === id) setSelectedBoxId(null);
+  };
+
+  // Delete removes the selected box rather than the whole frame; runs in the
+  // capture phase so the app-level frame delete never sees the key
+  useEffect(() => {
+    if (editMode !== 'boxes' || !selectedBoxId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT') return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.stopPropagation();
+        deleteBox(selectedBoxId);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  });
+
   // Keyboard listeners for Zoom
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -227,6 +282,55 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
     return null;
   };
 
+  // Nine-slice guide lines of a rect in screen space, one per inset
+  const getGuideScreenPos = (rect: Rect) => {
+    const b = borders[rect.id] ?? NO_BORDER;
+    return {
+      left: (rect.x + b.left) * zoom + pan.x,
+      right: (rect.x + rect.w - b.right) * zoom + pan.x,
+      top: (rect.y + b.top) * zoom + pan.y,
+      bottom: (rect.y + rect.h - b.bottom) * zoom + pan.y
+    };
+  };
+
+  // Guide under the cursor; inner guides win so a zero inset can still be pulled in
+  const getGuideAtPosition = (mx: number, my: number, rect: Rect): keyof NineSlice | null => {
+    if (!containerRef.current) return null;
+    const cBounds = containerRef.current.getBoundingClientRect();
+    const cx = mx - cBounds.left;
+    const cy = my - cBounds.top;
+    const g = getGuideScreenPos(rect);
+    const rx = rect.x * zoom + pan.x;
+    const ry = rect.y * zoom + pan.y;
+    const inX = cx >= rx - 4 && cx <= rx + rect.w * zoom + 4;
+    const inY = cy >= ry - 4 && cy <= ry + rect.h * zoom + 4;
+    const near = (a: number, b: number) => Math.abs(a - b) <= 4;
+    if (inY && near(cx, g.left) && cx >= g.left) return 'left';
+    if (inY && near(cx, g.right)) return 'right';
+    if (inY && near(cx, g.left)) return 'left';
+    if (inX && near(cy, g.top) && cy >= g.top) return 'top';
+    if (inX && near(cy, g.bottom)) return 'bottom';
+    if (inX && near(cy, g.top)) return 'top';
+    return null;
+  };
+
+  // Pivot of a rect in screen space; pivots are normalized to the untrimmed rect,
+  // so they stay put whatever auto-trim removes
+  const getPivotScreenPos = (rect: Rect) => {
+    const pivot = pivots[rect.id] ?? settings.export.pivot;
+    return {
+      x: (rect.x + pivot.x * rect.w) * zoom + pan.x,
+      y: (rect.y + pivot.y * rect.h) * zoom + pan.y
+    };
+  };
+
+  const isOverPivot = (mx: number, my: number, rect: Rect) => {
+    if (!containerRef.current) return false;
+    const cBounds = containerRef.current.getBoundingClientRect();
+    const p = getPivotScreenPos(rect);
+    return Math.hypot(mx - cBounds.left - p.x, my - cBounds.top - p.y) <= 7;
+  };
+
   // 1. Render Loop
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -277,18 +381,75 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
         ctx.fillRect(r.x, r.y, r.w, r.h);
       });
 
+      // Collision polygons, with a dot per vertex on the selected frame
+      activeRects.forEach(r => {
+        (polygons.get(r.id) ?? []).forEach(poly => {
+          ctx.strokeStyle = '#a3e635';
+          ctx.lineWidth = 1 / zoom;
+          ctx.beginPath();
+          poly.forEach((p, i) => {
+            if (i === 0) ctx.moveTo(r.x + p.x, r.y + p.y);
+            else ctx.lineTo(r.x + p.x, r.y + p.y);
+          });
+          ctx.closePath();
+          ctx.stroke();
+          if (r.id !== selectedRectId) return;
+          ctx.fillStyle = '#a3e635';
+          poly.forEach(p => ctx.fillRect(r.x + p.x - 1.5 / zoom, r.y + p.y - 1.5 / zoom, 3 / zoom, 3 / zoom));
+        });
+      });
+
+      // Collision boxes: all frames while annotating, otherwise only the selected one
+      activeRects.forEach(r => {
+        if (editMode !== 'boxes' && r.id !== selectedRectId) return;
+        (collisionBoxes[r.id] ?? []).forEach(b => {
+          const color = BOX_COLORS[b.type];
+          ctx.fillStyle = `${color}40`;
+          ctx.fillRect(r.x + b.x, r.y + b.y, b.w, b.h);
+          ctx.strokeStyle = color;
+          ctx.lineWidth = (b.id === selectedBoxId ? 2 : 1) / zoom;
+          ctx.strokeRect(r.x + b.x, r.y + b.y, b.w, b.h);
+        });
+      });
+
       // Draw dragging rect
       if (currentDrawRect) {
-        ctx.strokeStyle = '#ef4444';
+        ctx.strokeStyle = editMode === 'boxes' ? BOX_COLORS[boxType] : '#ef4444';
         ctx.lineWidth = 1 / zoom;
         ctx.strokeRect(currentDrawRect.x, currentDrawRect.y, currentDrawRect.w, currentDrawRect.h);
       }
     }
     ctx.restore();
 
+    // Nine-slice guides: the selected frame's are editable, others are shown faintly
+    if (image && editMode === 'nineSlice') {
+      ctx.save();
+      ctx.setLineDash([4, 3]);
+      getActiveRects().forEach(r => {
+        const isSelected = r.id === selectedRectId;
+        if (!isSelected && !borders[r.id]) return;
+        const g = getGuideScreenPos(r);
+        const rx = r.x * zoom + pan.x;
+        const ry = r.y * zoom + pan.y;
+        ctx.strokeStyle = isSelected ? '#e879f9' : 'rgba(232, 121, 249, 0.4)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        [g.left, g.right].forEach(x => {
+          ctx.moveTo(Math.round(x) + 0.5, ry);
+          ctx.lineTo(Math.round(x) + 0.5, ry + r.h * zoom);
+        });
+        [g.top, g.bottom].forEach(y => {
+          ctx.moveTo(rx, Math.round(y) + 0.5);
+          ctx.lineTo(rx + r.w * zoom, Math.round(y) + 0.5);
+        });
+        ctx.stroke();
+      });
+      ctx.restore();
+    }
+
     // Draw Resize Handles (Screen Space overlay)
     // Only allow resizing for manual and island rects (check ID)
-    if (selectedRectId) {
+    if (selectedRectId && editMode === 'slices') {
        const activeRects = getActiveRects();
        const r = activeRects.find(rect => rect.id === selectedRectId);
        
@@ -322,9 +483,28 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
          drawHandle(rx + rw/2, ry + rh); // s
          drawHandle(rx, ry + rh/2); // w
        }
+
+       // Pivot handle, available for every rect type
+       if (r) {
+         const p = getPivotScreenPos(r);
+         const hasOverride = !!pivots[r.id];
+         ctx.strokeStyle = hasOverride ? '#f59e0b' : '#22d3ee';
+         ctx.lineWidth = 1;
+         ctx.beginPath();
+         ctx.moveTo(p.x - 9, p.y);
+         ctx.lineTo(p.x + 9, p.y);
+         ctx.moveTo(p.x, p.y - 9);
+         ctx.lineTo(p.x, p.y + 9);
+         ctx.stroke();
+         ctx.beginPath();
+         ctx.arc(p.x, p.y, 4, 0, Math.PI * 2);
+         ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+         ctx.fill();
+         ctx.stroke();
+       }
     }
 
-  }, [image, zoom, pan, settings, manualRects, islandRects, selectedRectId, currentDrawRect, hiddenRectIds]);
+  }, [image, processedCanvas, zoom, pan, settings, manualRects, islandRects, selectedRectId, currentDrawRect, hiddenRectIds, pivots, collisionBoxes, editMode, boxType, selectedBoxId, polygons, borders]);
 
   // 2. Event Handlers
   const handleWheel = (e: React.WheelEvent) => {
@@ -337,6 +517,13 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
     }
   };
 
+  // Top-most rect under an image point
+  const rectAt = (coords: { x: number; y: number }) =>
+    [...getActiveRects()].reverse().find(r =>
+      coords.x >= r.x && coords.x <= r.x + r.w &&
+      coords.y >= r.y && coords.y <= r.y + r.h
+    );
+
   const handleMouseDown = (e: React.MouseEvent) => {
     if (isPickingColor && e.button === 0) {
       const coords = toImageCoords(e.clientX, e.clientY);
@@ -352,11 +539,47 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
       return;
     }
 
+    if (e.button === 0 && editMode === 'boxes') {
+      const coords = toImageCoords(e.clientX, e.clientY);
+      const r = selectedRect;
+      if (r && coords.x >= r.x && coords.x <= r.x + r.w && coords.y >= r.y && coords.y <= r.y + r.h) {
+        // Top-most box under the cursor moves, anywhere else in the frame draws a new one
+        const lx = coords.x - r.x;
+        const ly = coords.y - r.y;
+        const hit = [...selectedBoxes].reverse().find(b =>
+          lx >= b.x && lx <= b.x + b.w && ly >= b.y && ly <= b.y + b.h
+        );
+        if (hit) {
+          setSelectedBoxId(hit.id);
+          setMovingBox({ start: coords, initial: hit });
+        } else {
+          setSelectedBoxId(null);
+          setIsDrawing(true);
+          setDrawStart(coords);
+        }
+        return;
+      }
+
+      onSelectRect(rectAt(coords)?.id ?? null);
+      return;
+    }
+
+    if (e.button === 0 && editMode === 'nineSlice') {
+      const guide = selectedRect ? getGuideAtPosition(e.clientX, e.clientY, selectedRect) : null;
+      if (guide) setDraggingGuide(guide);
+      else onSelectRect(rectAt(toImageCoords(e.clientX, e.clientY))?.id ?? null);
+      return;
+    }
+
     if (e.button === 0) {
-      // Check for Resize Handle Hit first
+      // Check for Pivot and Resize Handle Hits first
       if (selectedRectId) {
         const activeRects = getActiveRects();
         const r = activeRects.find(rect => rect.id === selectedRectId);
+        if (r && isOverPivot(e.clientX, e.clientY, r)) {
+          setIsDraggingPivot(true);
+          return;
+        }
         if (r && (r.id.startsWith('manual-') || r.id.startsWith('island-'))) {
           const handle = getHandleAtPosition(e.clientX, e.clientY, r);
           if (handle) {
@@ -403,7 +626,46 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
       return;
     }
 
-    // 2. Resize
+    // 2. Pivot, snapped to whole pixels and kept inside the rect
+    if (isDraggingPivot && selectedRectId) {
+      const r = getActiveRects().find(rect => rect.id === selectedRectId);
+      if (r && r.w > 0 && r.h > 0) {
+        const coords = toImageCoords(e.clientX, e.clientY);
+        const px = Math.max(0, Math.min(r.w, Math.round(coords.x - r.x)));
+        const py = Math.max(0, Math.min(r.h, Math.round(coords.y - r.y)));
+        onSetPivot(r.id, { x: px / r.w, y: py / r.h });
+      }
+      return;
+    }
+
+    // 3. Nine-slice guide, in whole pixels; opposite insets can meet but not cross
+    if (draggingGuide && selectedRect) {
+      const coords = toImageCoords(e.clientX, e.clientY);
+      const r = selectedRect;
+      const b = borders[r.id] ?? NO_BORDER;
+      const inset = {
+        left: Math.round(coords.x - r.x),
+        right: Math.round(r.x + r.w - coords.x),
+        top: Math.round(coords.y - r.y),
+        bottom: Math.round(r.y + r.h - coords.y)
+      }[draggingGuide];
+      const opposite = { left: b.right, right: b.left, top: b.bottom, bottom: b.top }[draggingGuide];
+      const span = draggingGuide === 'left' || draggingGuide === 'right' ? r.w : r.h;
+      onSetBorder(r.id, { ...b, [draggingGuide]: Math.max(0, Math.min(span - opposite, inset)) });
+      return;
+    }
+
+    // 3. Move a collision box, in whole pixels and kept inside the frame
+    if (movingBox && selectedRect) {
+      const coords = toImageCoords(e.clientX, e.clientY);
+      const b = movingBox.initial;
+      const x = Math.max(0, Math.min(selectedRect.w - b.w, b.x + Math.round(coords.x - movingBox.start.x)));
+      const y = Math.max(0, Math.min(selectedRect.h - b.h, b.y + Math.round(coords.y - movingBox.start.y)));
+      updateBox(b.id, { x, y });
+      return;
+    }
+
+    // 4. Resize
     if (isResizing && initialResizeRect) {
       const dx = (e.clientX - dragStart.x) / zoom;
       const dy = (e.clientY - dragStart.y) / zoom;
@@ -423,9 +685,14 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
       return;
     }
 
-    // 3. Draw - Always active if isDrawing is true
+    // 5. Draw - Always active if isDrawing is true
     if (isDrawing) {
       const current = toImageCoords(e.clientX, e.clientY);
+      if (editMode === 'boxes' && selectedRect) {
+        // Boxes are clipped to the frame they annotate
+        current.x = Math.max(selectedRect.x, Math.min(selectedRect.x + selectedRect.w, current.x));
+        current.y = Math.max(selectedRect.y, Math.min(selectedRect.y + selectedRect.h, current.y));
+      }
       const w = current.x - drawStart.x;
       const h = current.y - drawStart.y;
       
@@ -439,10 +706,25 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
       return;
     }
 
-    // 4. Cursor Update (Hover)
+    // 6. Cursor Update (Hover)
+    if (editMode === 'boxes') {
+      setCursor('crosshair');
+      return;
+    }
+    if (editMode === 'nineSlice') {
+      const guide = selectedRect ? getGuideAtPosition(e.clientX, e.clientY, selectedRect) : null;
+      if (guide === 'left' || guide === 'right') setCursor('ew-resize');
+      else if (guide) setCursor('ns-resize');
+      else setCursor('default');
+      return;
+    }
     if (selectedRectId) {
       const activeRects = getActiveRects();
       const r = activeRects.find(rect => rect.id === selectedRectId);
+      if (r && isOverPivot(e.clientX, e.clientY, r)) {
+        setCursor('move');
+        return;
+      }
       if (r && (r.id.startsWith('manual-') || r.id.startsWith('island-'))) {
         const handle = getHandleAtPosition(e.clientX, e.clientY, r);
         if (handle) {
@@ -457,12 +739,43 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
     setCursor('crosshair');
   };
 
+  // Double-clicking the pivot drops its override, and a frame's nine-slice
+  // borders when editing those
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (!selectedRectId || isPickingColor || editMode === 'boxes') return;
+    if (editMode === 'nineSlice') {
+      if (selectedRect && rectAt(toImageCoords(e.clientX, e.clientY))?.id === selectedRect.id) {
+        onSetBorder(selectedRect.id, undefined);
+      }
+      return;
+    }
+    const r = getActiveRects().find(rect => rect.id === selectedRectId);
+    if (r && isOverPivot(e.clientX, e.clientY, r)) onSetPivot(r.id, undefined);
+  };
+
   const handleMouseUp = () => {
     setIsDraggingPan(false);
+    setIsDraggingPivot(false);
     setIsResizing(null);
     setInitialResizeRect(null);
+    setMovingBox(null);
+    setDraggingGuide(null);
     
-    if (isDrawing && currentDrawRect) {
+    if (isDrawing && currentDrawRect && editMode === 'boxes') {
+      // Stored relative to the untrimmed frame so auto-trim never shifts it
+      if (selectedRect) {
+        const x = Math.round(currentDrawRect.x - selectedRect.x);
+        const y = Math.round(currentDrawRect.y - selectedRect.y);
+        const w = Math.round(currentDrawRect.x + currentDrawRect.w - selectedRect.x) - x;
+        const h = Math.round(currentDrawRect.y + currentDrawRect.h - selectedRect.y) - y;
+        if (w >= 1 && h >= 1) {
+          const box: CollisionBox = { id: `box-${Date.now()}`, name: nextBoxName(selectedBoxes, boxType), type: boxType, x, y, w, h };
+          onChangeBoxes(selectedRect.id, [...selectedBoxes, box]);
+          setSelectedBoxId(box.id);
+        }
+      }
+      setCurrentDrawRect(null);
+    } else if (isDrawing && currentDrawRect) {
       if (currentDrawRect.w > 1 && currentDrawRect.h > 1) {
         setManualRects([...manualRects, { ...currentDrawRect, id: `manual-${Date.now()}` }]);
       }
@@ -481,6 +794,7 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
       onMouseMove={handleMouseMove}
       onMouseUp={handleMouseUp}
       onMouseLeave={handleMouseUp}
+      onDoubleClick={handleDoubleClick}
       tabIndex={0} 
     >
       <canvas ref={canvasRef} className="block" />
@@ -502,6 +816,64 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
         </div>
       )}
 
+      {/* Collision box panel for the selected frame */}
+      {editMode === 'boxes' && image && (
+        <div
+          className="absolute top-4 right-4 w-56 bg-gray-800/95 border border-gray-700 rounded shadow-lg p-2 space-y-2 text-xs z-10"
+          onMouseDown={e => e.stopPropagation()}
+        >
+          <div className="flex gap-1">
+            {BOX_TYPES.map(type => (
+              <button
+                key={type}
+                onClick={() => setBoxType(type)}
+                className={`flex-1 px-1 py-1 rounded border capitalize ${boxType === type ? 'text-white' : 'text-gray-400 border-gray-700 hover:text-white'}`}
+                style={boxType === type ? { borderColor: BOX_COLORS[type], backgroundColor: `${BOX_COLORS[type]}40` } : undefined}
+              >
+                {type}
+              </button>
+            ))}
+          </div>
+          {!selectedRect ? (
+            <p className="text-gray-500 italic">Select a frame to annotate</p>
+          ) : selectedBoxes.length === 0 ? (
+            <p className="text-gray-500 italic">Drag inside the frame to add a {boxType}</p>
+          ) : (
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+              {selectedBoxes.map(b => (
+                <div
+                  key={b.id}
+                  onClick={() => setSelectedBoxId(b.id)}
+                  className={`flex items-center gap-1 rounded p-1 border ${b.id === selectedBoxId ? 'border-blue-500 bg-blue-900/30' : 'border-transparent'}`}
+                >
+                  <span className="w-2 h-2 rounded-sm shrink-0" style={{ backgroundColor: BOX_COLORS[b.type] }} />
+                  <input
+                    type="text"
+                    value={b.name}
+                    onChange={(e) => updateBox(b.id, { name: e.target.value })}
+                    className="flex-1 min-w-0 bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-white outline-none focus:border-blue-500"
+                  />
+                  <select
+                    value={b.type}
+                    onChange={(e) => updateBox(b.id, { type: e.target.value as CollisionBoxType })}
+                    className="bg-gray-950 border border-gray-700 rounded px-0.5 py-0.5 text-gray-200 outline-none"
+                  >
+                    {BOX_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                  </select>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); deleteBox(b.id); }}
+                    title="Delete box"
+                    className="text-gray-500 hover:text-red-400"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Zoom Controls Overlay */}
       <div className="absolute bottom-4 left-4 flex flex-col gap-2 z-10">
         <div className="flex items-center gap-2">
@@ -528,10 +900,30 @@ const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
                 >
                 <Maximize className="w-3.5 h-3.5" />
                 </button>
+                <button 
+                  onClick={() => setEditMode(m => m === 'boxes' ? 'slices' : 'boxes')} 
+                  onMouseDown={e => e.stopPropagation()}
+                  className={`p-2 border-l border-gray-700 active:bg-gray-600 ${editMode === 'boxes' ? 'bg-blue-600 hover:bg-blue-500' : 'hover:bg-gray-700'}`} 
+                  title="Annotate collision boxes"
+                >
+                <BoxSelect className="w-3.5 h-3.5" />
+                </button>
+                <button 
+                  onClick={() => setEditMode(m => m === 'nineSlice' ? 'slices' : 'nineSlice')} 
+                  onMouseDown={e => e.stopPropagation()}
+                  className={`p-2 border-l border-gray-700 active:bg-gray-600 ${editMode === 'nineSlice' ? 'bg-blue-600 hover:bg-blue-500' : 'hover:bg-gray-700'}`} 
+                  title="Edit nine-slice borders"
+                >
+                <Grid3x3 className="w-3.5 h-3.5" />
+                </button>
             </div>
             
             <div className="bg-gray-800/90 backdrop-blur-sm text-[10px] px-2 py-1.5 rounded shadow text-gray-400 border border-gray-700/50 pointer-events-none select-none">
-                Pan: Shift+Drag | Drag to Add Rect | Delete to Remove
+                {editMode === 'boxes'
+                  ? 'Pan: Shift+Drag | Click a frame, then drag inside it to add a box | Drag a box to move | Delete to remove'
+                  : editMode === 'nineSlice'
+                  ? 'Pan: Shift+Drag | Click a frame, then drag its edge guides inward | Double-click to clear borders'
+                  : 'Pan: Shift+Drag | Drag to Add Rect | Delete to Remove | Drag Pivot (double-click resets)'}
             </div>
         </div>
       </div>
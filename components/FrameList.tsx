@@ -1,29 +1,41 @@
 import React, { useState, useRef } from 'react';
-import { FrameData } from '../types';
-import { Play, Download, Trash2, X, Move } from 'lucide-react';
+import { AnimationDirection, AnimationTag, FrameData } from '../types';
+import { Play, Download, Trash2, X, Move, Copy, Film } from 'lucide-react';
 
 interface FrameListProps {
   frames: FrameData[];
+  duplicates: Map<string, string>; // Duplicate frame id -> id of the frame it repeats
   onExport: () => void;
   onClear: () => void;
   onTogglePreview: () => void;
   onDelete: (ids: string[]) => void;
   onReorder: (fromIndex: number, toIndex: number) => void;
+  animations: AnimationTag[];
+  onCreateAnimation: (frameIds: string[]) => void;
+  onUpdateAnimation: (id: string, changes: Partial<AnimationTag>) => void;
+  onDeleteAnimation: (id: string) => void;
 }
 
 const FrameList: React.FC<FrameListProps> = ({ 
   frames, 
+  duplicates,
   onExport, 
   onClear, 
   onTogglePreview, 
   onDelete,
-  onReorder
+  onReorder,
+  animations,
+  onCreateAnimation,
+  onUpdateAnimation,
+  onDeleteAnimation
 }) => {
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [lastSelectedId, setLastSelectedId] = useState<string | null>(null);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
 
+  const indexById = new Map(frames.map((f, i) => [f.id, i]));
+
   const handleFrameClick = (e: React.MouseEvent, frameId: string, index: number) => {
     e.stopPropagation();
     
@@ -75,6 +87,11 @@ const FrameList: React.FC<FrameListProps> = ({
     }
   };
 
+  // Tags keep the frame list order, not the order frames were clicked in
+  const handleCreateAnimation = () => {
+    onCreateAnimation(frames.filter(f => selectedIds.has(f.id)).map(f => f.id));
+  };
+
   // Drag and Drop Handlers
   const handleDragStart = (e: React.DragEvent, index: number) => {
     setDraggedIndex(index);
@@ -107,8 +124,24 @@ const FrameList: React.FC<FrameListProps> = ({
       onClick={handleBackgroundClick}
     >
       <div className="p-4 border-b border-gray-750 flex items-center justify-between bg-gray-850">
-        <h2 className="font-semibold text-white">Frames ({frames.length})</h2>
+        <h2 className="font-semibold text-white">
+          Frames ({frames.length})
+          {duplicates.size > 0 && (
+            <span className="ml-1 text-xs font-normal text-amber-400" title="Frames that repeat an earlier image">
+              {duplicates.size} dup
+            </span>
+          )}
+        </h2>
         <div className="flex gap-2">
+          {selectedIds.size > 0 && (
+            <button 
+              onClick={(e) => { e.stopPropagation(); handleCreateAnimation(); }}
+              title="Create animation from selected frames"
+              className="text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              <Film className="w-4 h-4" />
+            </button>
+          )}
           {selectedIds.size > 0 && (
             <button 
               onClick={(e) => { e.stopPropagation(); handleDeleteSelected(); }}
@@ -139,6 +172,7 @@ const FrameList: React.FC<FrameListProps> = ({
               const isSelected = selectedIds.has(frame.id);
               const isDragging = draggedIndex === idx;
               const isDragOver = dragOverIndex === idx;
+              const originalId = duplicates.get(frame.id);
               
               return (
                 <div 
@@ -166,6 +200,13 @@ const FrameList: React.FC<FrameListProps> = ({
                     #{idx}
                   </div>
 
+                  {/* Duplicate badge */}
+                  {originalId !== undefined && (
+                    <div className="absolute bottom-1 left-1 flex items-center gap-0.5 bg-amber-600/90 text-white text-[10px] px-1 rounded pointer-events-none">
+                      <Copy className="w-2.5 h-2.5" /> #{indexById.get(originalId)}
+                    </div>
+                  )}
+
                   {/* Individual Delete button */}
                   <button 
                     onClick={(e) => {
@@ -182,6 +223,71 @@ const FrameList: React.FC<FrameListProps> = ({
             })}
           </div>
         )}
+
+        {animations.length > 0 && (
+          <div className="space-y-2" onClick={e => e.stopPropagation()}>
+            <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500">Animations</h3>
+            {animations.map(tag => {
+              const count = tag.frameIds.filter(id => indexById.has(id)).length;
+              return (
+                <div key={tag.id} className="bg-gray-900/60 border border-gray-750 rounded p-2 space-y-1.5 text-xs">
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="text"
+                      value={tag.name}
+                      onChange={(e) => onUpdateAnimation(tag.id, { name: e.target.value })}
+                      className="flex-1 min-w-0 bg-gray-950 border border-gray-700 rounded px-1.5 py-0.5 text-white focus:border-blue-500 outline-none"
+                    />
+                    <button
+                      onClick={() => onDeleteAnimation(tag.id)}
+                      title="Delete animation"
+                      className="text-gray-500 hover:text-red-400 transition-colors"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <select
+                      value={tag.direction}
+                      onChange={(e) => onUpdateAnimation(tag.id, { direction: e.target.value as AnimationDirection })}
+                      className="flex-1 min-w-0 bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-gray-200 outline-none"
+                    >
+                      <option value="forward">Forward</option>
+                      <option value="reverse">Reverse</option>
+                      <option value="pingpong">Ping-pong</option>
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      value={tag.loop}
+                      onChange={(e) => onUpdateAnimation(tag.id, { loop: Math.max(0, Number(e.target.value)) })}
+                      title="Loops (0 = forever)"
+                      className="w-10 bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-white outline-none"
+                    />
+                    <input
+                      type="number"
+                      min="1"
+                      max="60"
+                      value={tag.fps}
+                      onChange={(e) => onUpdateAnimation(tag.id, { fps: Math.max(1, Number(e.target.value)) })}
+                      title="FPS"
+                      className="w-10 bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-white outline-none"
+                    />
+                  </div>
+                  <button
+                    onClick={() => {
+                      setSelectedIds(new Set(tag.frameIds.filter(id => indexById.has(id))));
+                      setLastSelectedId(null);
+                    }}
+                    className="text-[10px] text-gray-500 hover:text-blue-400"
+                  >
+                    {count} frame{count === 1 ? '' : 's'} · select
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
 
       <div className="p-4 border-t border-gray-750 space-y-2 bg-gray-900" onClick={e => e.stopPropagation()}>
@@ -1,27 +1,236 @@
-import React, { useState, useEffect } from 'react';
-import { FrameData } from '../types';
-import { X, ZoomIn } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AnimationTag, FrameData, NineSlice, Pivot } from '../types';
+import { X, ZoomIn, Film, Layers } from 'lucide-react';
+import { exportGif } from '../services/gif';
+import { exportApng } from '../services/apng';
+import { frameDuration, playbackOrder, resolveTagIndices } from '../services/animations';
+import { BOX_COLORS } from '../services/hitboxes';
+import Timeline from './Timeline';
+
+type Crosshair = 'off' | 'pivot' | 'center';
+
+const ONION_PREV_TINT = 'rgb(255, 80, 80)';
+const ONION_NEXT_TINT = 'rgb(80, 160, 255)';
+
+// Point the crosshair marks, in the frame's untrimmed (original rect) space
+const crosshairPoint = (frame: FrameData, mode: Crosshair, defaultPivot: Pivot) => {
+  const p = mode === 'pivot' ? frame.pivot ?? defaultPivot : { x: 0.5, y: 0.5 };
+  return {
+    x: (frame.originalSize?.w ?? frame.rect.w) * p.x,
+    y: (frame.originalSize?.h ?? frame.rect.h) * p.y
+  };
+};
+
+// Draw src into a dw x dh box with its border insets kept at `scale`, stretching
+// the edges and centre; insets shrink to fit when the box is smaller than them
+const drawNineSlice = (
+  ctx: CanvasRenderingContext2D,
+  src: HTMLCanvasElement,
+  b: NineSlice,
+  dw: number,
+  dh: number,
+  scale: number
+) => {
+  const fitX = Math.min(1, dw / Math.max(1, (b.left + b.right) * scale));
+  const fitY = Math.min(1, dh / Math.max(1, (b.top + b.bottom) * scale));
+  const sx = [0, b.left, src.width - b.right, src.width];
+  const sy = [0, b.top, src.height - b.bottom, src.height];
+  const dx = [0, b.left * scale * fitX, dw - b.right * scale * fitX, dw];
+  const dy = [0, b.top * scale * fitY, dh - b.bottom * scale * fitY, dh];
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      const sw = sx[i + 1] - sx[i];
+      const sh = sy[j + 1] - sy[j];
+      const w = dx[i + 1] - dx[i];
+      const h = dy[j + 1] - dy[j];
+      if (sw > 0 && sh > 0 && w > 0 && h > 0) ctx.drawImage(src, sx[i], sy[j], sw, sh, dx[i], dy[j], w, h);
+    }
+  }
+};
 
 interface PreviewModalProps {
   frames: FrameData[];
+  animations: AnimationTag[];
+  defaultFps: number;
+  defaultPivot: Pivot;
+  onChangeDuration: (frameId: string, ms: number | undefined) => void;
   onClose: () => void;
 }
 
-const PreviewModal: React.FC<PreviewModalProps> = ({ frames, onClose }) => {
-  const [currentFrame, setCurrentFrame] = useState(0);
-  const [fps, setFps] = useState(12);
+const PreviewModal: React.FC<PreviewModalProps> = ({ frames, animations, defaultFps, defaultPivot, onChangeDuration, onClose }) => {
+  const [tagId, setTagId] = useState('');
+  const [position, setPosition] = useState(0);
+  const [fps, setFps] = useState(defaultFps);
   const [zoom, setZoom] = useState(1);
   const [isPlaying, setIsPlaying] = useState(true);
+  const [loopCount, setLoopCount] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [onionPrev, setOnionPrev] = useState(0);
+  const [onionNext, setOnionNext] = useState(0);
+  const [onionOpacity, setOnionOpacity] = useState(0.3);
+  const [crosshair, setCrosshair] = useState<Crosshair>('off');
+  const [showBoxes, setShowBoxes] = useState(true);
+  const [stretch, setStretch] = useState<{ w: number; h: number } | null>(null); // Nine-slice preview size
+  const [loadedCount, setLoadedCount] = useState(0);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imagesRef = useRef(new Map<string, HTMLImageElement>());
+  const tintRef = useRef<HTMLCanvasElement | null>(null);
+  const sliceRef = useRef<HTMLCanvasElement | null>(null);
+
+  // Frame indices in playback order: the selected tag, or every frame
+  const tag = animations.find(a => a.id === tagId);
+  const sequence = useMemo(() => {
+    const indices = tag ? resolveTagIndices(tag, frames) : [];
+    return indices.length > 0
+      ? playbackOrder(indices, tag!.direction)
+      : frames.map((_, i) => i);
+  }, [tag, frames]);
+  const currentFrame = sequence[position % sequence.length] ?? 0;
+  const durations = useMemo(() => sequence.map(i => frameDuration(frames[i], fps)), [sequence, frames, fps]);
+
+  const handleSelectTag = (id: string) => {
+    setTagId(id);
+    setPosition(0);
+    const next = animations.find(a => a.id === id);
+    if (next) {
+      setFps(next.fps);
+      setLoopCount(next.loop);
+    }
+  };
+
+  // Decode every frame once; redraw as they arrive. Images of frames that are
+  // gone (their object URLs revoked) are dropped.
+  useEffect(() => {
+    const images = imagesRef.current;
+    const urls = new Set(frames.map(f => f.url));
+    for (const url of Array.from(images.keys())) {
+      if (!urls.has(url)) images.delete(url);
+    }
+    for (const f of frames) {
+      if (images.has(f.url)) continue;
+      const img = new Image();
+      img.onload = () => setLoadedCount(c => c + 1);
+      img.src = f.url;
+      images.set(f.url, img);
+    }
+  }, [frames]);
+
+  // Draw the current frame with onion skins on its untrimmed canvas, so
+  // trimmed frames sit where they were on the sheet
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || sequence.length === 0) return;
+
+    // Stretched preview: rebuild the untrimmed frame, then nine-slice it to the chosen size
+    if (stretch) {
+      const frame = frames[currentFrame];
+      const img = imagesRef.current.get(frame.url);
+      canvas.width = Math.max(1, Math.round(stretch.w * zoom));
+      canvas.height = Math.max(1, Math.round(stretch.h * zoom));
+      const ctx = canvas.getContext('2d');
+      if (!ctx || !img || !img.complete || img.naturalWidth === 0) return;
+      const source = sliceRef.current ?? (sliceRef.current = document.createElement('canvas'));
+      source.width = frame.originalSize?.w ?? frame.rect.w;
+      source.height = frame.originalSize?.h ?? frame.rect.h;
+      source.getContext('2d')?.drawImage(img, frame.trimOffset?.x ?? 0, frame.trimOffset?.y ?? 0);
+      ctx.imageSmoothingEnabled = false;
+      drawNineSlice(ctx, source, frame.border ?? { left: 0, top: 0, right: 0, bottom: 0 }, canvas.width, canvas.height, zoom);
+      return;
+    }
+
+    const baseW = Math.max(...sequence.map(i => frames[i].originalSize?.w ?? frames[i].rect.w));
+    const baseH = Math.max(...sequence.map(i => frames[i].originalSize?.h ?? frames[i].rect.h));
+    canvas.width = Math.max(1, Math.round(baseW * zoom));
+    canvas.height = Math.max(1, Math.round(baseH * zoom));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.imageSmoothingEnabled = false;
+
+    const drawFrame = (frame: FrameData, alpha: number, tint?: string) => {
+      const img = imagesRef.current.get(frame.url);
+      if (!img || !img.complete || img.naturalWidth === 0) return;
+      const x = (frame.trimOffset?.x ?? 0) * zoom;
+      const y = (frame.trimOffset?.y ?? 0) * zoom;
+      const w = img.naturalWidth * zoom;
+      const h = img.naturalHeight * zoom;
+      ctx.globalAlpha = alpha;
+      if (!tint) {
+        ctx.drawImage(img, x, y, w, h);
+      } else {
+        // Tint through a scratch canvas so only the sprite's pixels get colored
+        const scratch = tintRef.current ?? (tintRef.current = document.createElement('canvas'));
+        scratch.width = Math.max(1, Math.round(w));
+        scratch.height = Math.max(1, Math.round(h));
+        const sctx = scratch.getContext('2d');
+        if (!sctx) return;
+        sctx.imageSmoothingEnabled = false;
+        sctx.drawImage(img, 0, 0, scratch.width, scratch.height);
+        sctx.globalCompositeOperation = 'source-atop';
+        sctx.fillStyle = tint;
+        sctx.globalAlpha = 0.5;
+        sctx.fillRect(0, 0, scratch.width, scratch.height);
+        ctx.drawImage(scratch, x, y);
+      }
+      ctx.globalAlpha = 1;
+    };
+
+    const pos = position % sequence.length;
+    const at = (offset: number) => frames[sequence[(pos + offset + sequence.length * 8) % sequence.length]];
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    // Farther skins fade out; drawn back to front
+    for (let k = Math.min(onionPrev, sequence.length - 1); k >= 1; k--) {
+      drawFrame(at(-k), onionOpacity * (1 - (k - 1) / onionPrev), ONION_PREV_TINT);
+    }
+    for (let k = Math.min(onionNext, sequence.length - 1); k >= 1; k--) {
+      drawFrame(at(k), onionOpacity * (1 - (k - 1) / onionNext), ONION_NEXT_TINT);
+    }
+    const frame = frames[currentFrame];
+    drawFrame(frame, 1);
+
+    // Collision boxes share the untrimmed frame space the canvas is drawn in
+    if (showBoxes) {
+      ctx.lineWidth = 1;
+      (frame.boxes ?? []).forEach(b => {
+        ctx.fillStyle = `${BOX_COLORS[b.type]}40`;
+        ctx.fillRect(b.x * zoom, b.y * zoom, b.w * zoom, b.h * zoom);
+        ctx.strokeStyle = BOX_COLORS[b.type];
+        ctx.strokeRect(b.x * zoom + 0.5, b.y * zoom + 0.5, b.w * zoom - 1, b.h * zoom - 1);
+      });
+    }
+
+    if (crosshair !== 'off') {
+      const p = crosshairPoint(frame, crosshair, defaultPivot);
+      const cx = Math.round(p.x * zoom) + 0.5;
+      const cy = Math.round(p.y * zoom) + 0.5;
+      ctx.strokeStyle = 'rgba(0, 255, 255, 0.9)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(cx, 0);
+      ctx.lineTo(cx, canvas.height);
+      ctx.moveTo(0, cy);
+      ctx.lineTo(canvas.width, cy);
+      ctx.stroke();
+    }
+  }, [frames, sequence, position, currentFrame, zoom, onionPrev, onionNext, onionOpacity, crosshair, defaultPivot, showBoxes, stretch, loadedCount]);
 
+  // Each frame schedules the next one after its own duration
   useEffect(() => {
-    if (!isPlaying || frames.length === 0) return;
+    if (!isPlaying || sequence.length === 0) return;
     
-    const interval = setInterval(() => {
-      setCurrentFrame(c => (c + 1) % frames.length);
-    }, 1000 / fps);
+    const timer = setTimeout(() => {
+      setPosition(p => (p + 1) % sequence.length);
+    }, durations[position % sequence.length]);
 
-    return () => clearInterval(interval);
-  }, [fps, isPlaying, frames]);
+    return () => clearTimeout(timer);
+  }, [isPlaying, sequence, durations, position]);
+
+  const seek = (next: number) => {
+    setIsPlaying(false);
+    setPosition(next);
+  };
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -34,6 +243,15 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ frames, onClose }) => {
       if (e.key === '-' || e.key === '_') {
         setZoom(prev => Math.max(0.5, prev - 0.5));
       }
+      // Step through frames
+      if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+        const target = e.target as HTMLElement;
+        if (target.tagName === 'INPUT' || target.tagName === 'SELECT') return;
+        e.preventDefault();
+        const step = e.key === 'ArrowLeft' ? -1 : 1;
+        setIsPlaying(false);
+        setPosition(p => ((p % sequence.length) + step + sequence.length) % sequence.length);
+      }
       // Close on Escape
       if (e.key === 'Escape') {
         onClose();
@@ -42,7 +260,31 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ frames, onClose }) => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [onClose]);
+  }, [onClose, sequence.length]);
+
+  const runExport = async (encode: () => Promise<Blob>, filename: string) => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const blob = await encode();
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = filename;
+      link.click();
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const sequenceFrames = () => sequence.map(i => frames[i]);
+  const exportName = tag?.name || 'animation';
+
+  const handleExportGif = () => runExport(() => exportGif(sequenceFrames(), { delaysMs: durations, zoom, loopCount }), `${exportName}.gif`);
+
+  // APNG keeps the frame PNGs as-is, so it plays at 1x regardless of zoom
+  const handleExportApng = () => runExport(() => exportApng(sequenceFrames(), { delaysMs: durations, loopCount }), `${exportName}.png`);
 
   if (frames.length === 0) return null;
 
@@ -56,30 +298,52 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ frames, onClose }) => {
           </button>
         </div>
         
-        <div className="aspect-square bg-[url('data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAoAAAAKCAYAAACNMs+9AAAAGXRFWHRTb2Z0d2FyZQBBZG9iZSBJbWFnZVJlYWR5ccllPAAAABtJREFUeNpiZGBg+M+AAxwnQ4M6DBp40AgQYAA76wE29k36+QAAAABJRU5ErkJggg==')] flex items-center justify-center bg-gray-900 overflow-hidden relative">
-          <img 
-            src={frames[currentFrame].url} 
-            className="max-w-full max-h-full object-contain" 
-            alt="Preview" 
-            style={{ 
-              imageRendering: 'pixelated',
-              transform: `scale(${zoom})`,
-              transition: 'transform 0.05s ease-out'
-            }}
+        <div className="aspect-square bg-[url('data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAoAAAAKCAYAAACNMs+9AAAAGXRFWHRTb2Z0d2FyZQBBZG9iZSBJbWFnZVJlYWR5ccllPAAAABtJREFUeNpiZGBg+M+AAxwnQ4M6DBp40AgQYAA76wE29k36+QAAAABJRU5ErkJggg==')] flex bg-gray-900 overflow-auto relative">
+          {/* m-auto centres small canvases and still lets zoomed ones scroll from their edge */}
+          <canvas 
+            ref={canvasRef}
+            className="m-auto shrink-0" 
+            style={{ imageRendering: 'pixelated' }}
           />
         </div>
 
         <div className="p-4 space-y-4 shrink-0">
+           {/* Animation Tag */}
+           {animations.length > 0 && (
+             <select
+               value={tagId}
+               onChange={(e) => handleSelectTag(e.target.value)}
+               className="w-full bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-white text-sm focus:border-blue-500 outline-none"
+             >
+               <option value="">All frames</option>
+               {animations.map(a => (
+                 <option key={a.id} value={a.id}>{a.name}</option>
+               ))}
+             </select>
+           )}
+
            {/* Info Row */}
            <div className="flex items-center justify-between text-xs text-gray-400">
-             <span>Frame: {currentFrame + 1} / {frames.length}</span>
+             <span>Frame: {(position % sequence.length) + 1} / {sequence.length}</span>
              <span>{frames[currentFrame].trimmedSize?.w ?? frames[currentFrame].rect.w} x {frames[currentFrame].trimmedSize?.h ?? frames[currentFrame].rect.h} px</span>
            </div>
 
+           {/* Timeline */}
+           <div className="space-y-1">
+             <Timeline
+               frames={sequenceFrames()}
+               durations={durations}
+               position={position % sequence.length}
+               onSeek={seek}
+               onChangeDuration={onChangeDuration}
+             />
+             <div className="text-[10px] text-gray-500 text-right">Drag a frame edge to set its duration · arrow keys step</div>
+           </div>
+
            {/* FPS Control */}
            <div className="space-y-1">
              <div className="flex justify-between text-sm text-gray-300">
-               <label>Speed</label>
+               <label title="Frames without their own duration play at this rate">Speed</label>
                <span>{fps} FPS</span>
              </div>
              <input 
@@ -110,12 +374,128 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ frames, onClose }) => {
              <div className="text-[10px] text-gray-500 text-right">Use + and - keys</div>
            </div>
 
+           {/* Onion Skin & Crosshair */}
+           <div className="space-y-2">
+             <div className="flex items-center justify-between text-sm text-gray-300">
+               <label className="flex items-center gap-1"><Layers className="w-3 h-3"/> Onion Skin</label>
+               <span className="text-xs text-gray-500">{Math.round(onionOpacity * 100)}%</span>
+             </div>
+             <div className="flex items-center gap-2 text-xs text-gray-400">
+               <label title="Previous frames (red)">Prev</label>
+               <input 
+                 type="number" 
+                 min="0" 
+                 max="5" 
+                 value={onionPrev} 
+                 onChange={(e) => setOnionPrev(Math.max(0, Math.min(5, Number(e.target.value))))}
+                 className="w-12 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none"
+               />
+               <label title="Next frames (blue)">Next</label>
+               <input 
+                 type="number" 
+                 min="0" 
+                 max="5" 
+                 value={onionNext} 
+                 onChange={(e) => setOnionNext(Math.max(0, Math.min(5, Number(e.target.value))))}
+                 className="w-12 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none"
+               />
+               <input 
+                 type="range" 
+                 min="0.05" 
+                 max="1" 
+                 step="0.05"
+                 value={onionOpacity} 
+                 onChange={(e) => setOnionOpacity(Number(e.target.value))}
+                 className="flex-1 min-w-0 accent-blue-500"
+                 title="Onion skin opacity"
+               />
+             </div>
+             <div className="flex items-center justify-between text-xs text-gray-400">
+               <label>Crosshair</label>
+               <select
+                 value={crosshair}
+                 onChange={(e) => setCrosshair(e.target.value as Crosshair)}
+                 className="bg-gray-950 border border-gray-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none"
+               >
+                 <option value="off">Off</option>
+                 <option value="pivot">Pivot</option>
+                 <option value="center">Original Rect Centre</option>
+               </select>
+             </div>
+             <label className="flex items-center justify-between text-xs text-gray-400">
+               <span>Collision Boxes</span>
+               <input
+                 type="checkbox"
+                 checked={showBoxes}
+                 onChange={(e) => setShowBoxes(e.target.checked)}
+                 className="accent-blue-500"
+               />
+             </label>
+             <div className="flex items-center gap-2 text-xs text-gray-400">
+               <label className="flex items-center gap-2 flex-1" title="Stretch the frame using its nine-slice borders">
+                 <input
+                   type="checkbox"
+                   checked={!!stretch}
+                   onChange={(e) => {
+                     const f = frames[currentFrame];
+                     setStretch(e.target.checked
+                       ? { w: (f.originalSize?.w ?? f.rect.w) * 2, h: (f.originalSize?.h ?? f.rect.h) * 2 }
+                       : null);
+                   }}
+                   className="accent-blue-500"
+                 />
+                 Nine-Slice
+               </label>
+               {stretch && (['w', 'h'] as const).map(key => (
+                 <input
+                   key={key}
+                   type="number"
+                   min="1"
+                   max="2048"
+                   value={stretch[key]}
+                   onChange={(e) => setStretch({ ...stretch, [key]: Math.max(1, Math.min(2048, Number(e.target.value))) })}
+                   title={key === 'w' ? 'Width' : 'Height'}
+                   className="w-16 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none"
+                 />
+               ))}
+             </div>
+           </div>
+
            <button 
              onClick={() => setIsPlaying(!isPlaying)}
              className={`w-full py-2 rounded font-medium transition-colors ${isPlaying ? 'bg-gray-700 hover:bg-gray-600 text-white' : 'bg-blue-600 hover:bg-blue-500 text-white'}`}
            >
              {isPlaying ? "Pause" : "Play"}
            </button>
+
+           {/* GIF Export */}
+           <div className="flex items-center gap-2">
+             <label className="text-xs text-gray-400 shrink-0" title="0 loops forever">Loops</label>
+             <input 
+               type="number" 
+               min="0" 
+               value={loopCount} 
+               onChange={(e) => setLoopCount(Math.max(0, Number(e.target.value)))}
+               className="w-16 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-white text-xs focus:border-blue-500 outline-none"
+             />
+             <button 
+               onClick={handleExportGif}
+               disabled={isExporting}
+               className="flex-1 flex items-center justify-center gap-2 py-2 rounded font-medium transition-colors bg-green-600 hover:bg-green-500 text-white disabled:opacity-50"
+             >
+               <Film className="w-4 h-4" /> GIF
+             </button>
+             <button 
+               onClick={handleExportApng}
+               disabled={isExporting}
+               className="flex-1 flex items-center justify-center gap-2 py-2 rounded font-medium transition-colors bg-green-600 hover:bg-green-500 text-white disabled:opacity-50"
+               title="Animated PNG with full alpha"
+             >
+               <Film className="w-4 h-4" /> APNG
+             </button>
+           </div>
+           {isExporting && <div className="text-[10px] text-gray-500 text-right">Encoding...</div>}
+           {exportError && <div className="text-xs text-red-400">{exportError}</div>}
         </div>
       </div>
     </div>
@@ -1,16 +1,22 @@
 import React from 'react';
-import { AppSettings } from '../types';
-import { Upload, Sliders, Scissors, Droplet, Grid3X3, MousePointer2, Sparkles } from 'lucide-react';
+import { AppSettings, ProcessingProgress } from '../types';
+import { ATLAS_ONLY_FORMATS } from '../services/exporter';
+import { Upload, Sliders, Scissors, Droplet, Grid3X3, MousePointer2, Sparkles, Package, FileInput, X } from 'lucide-react';
 
 interface SidebarProps {
   settings: AppSettings;
   updateSettings: (s: Partial<AppSettings>) => void;
   onUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  isProcessing: boolean;
+  onImport: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  progress: ProcessingProgress | null;
+  error: string | null;
+  onDismissError: () => void;
   onPickColor: () => void;
   onCancelPickColor: () => void;
   onAutoDetectColor: () => void;
   onAutoDetectEdgeColors: () => void;
+  onAutoDetectGrid: () => void;
+  gridConfidence: number | null;
   isPickingColor: boolean;
   hasImage: boolean;
   onUndo: () => void;
@@ -23,11 +29,16 @@ const Sidebar: React.FC<SidebarProps> = ({
   settings,
   updateSettings,
   onUpload,
-  isProcessing,
+  onImport,
+  progress,
+  error,
+  onDismissError,
   onPickColor,
   onCancelPickColor,
   onAutoDetectColor,
   onAutoDetectEdgeColors,
+  onAutoDetectGrid,
+  gridConfidence,
   isPickingColor,
   hasImage,
   onUndo,
@@ -43,7 +54,7 @@ const Sidebar: React.FC<SidebarProps> = ({
     });
   };
 
-  const updateIslands = (key: keyof AppSettings['islands'], val: number) => {
+  const updateIslands = (key: keyof AppSettings['islands'], val: number | string) => {
     updateSettings({
       ...settings,
       islands: { ...settings.islands, [key]: val }
@@ -57,6 +68,27 @@ const Sidebar: React.FC<SidebarProps> = ({
     });
   };
 
+  // Export options don't affect slicing, so only send the export slice
+  const updateExport = (key: keyof AppSettings['export'], val: any) => {
+    updateSettings({
+      export: { ...settings.export, [key]: val }
+    });
+  };
+
+  const updateAtlas = (key: keyof AppSettings['export']['atlas'], val: number | boolean) => {
+    updateExport('atlas', { ...settings.export.atlas, [key]: val });
+  };
+
+  const updatePivot = (key: 'x' | 'y', val: number) => {
+    updateExport('pivot', { ...settings.export.pivot, [key]: Math.max(0, Math.min(1, val)) });
+  };
+
+  const updatePolygon = (key: keyof AppSettings['export']['polygon'], val: number | boolean | string) => {
+    updateExport('polygon', { ...settings.export.polygon, [key]: val });
+  };
+
+  const atlasOnly = ATLAS_ONLY_FORMATS.includes(settings.export.format);
+
   const removeColorKey = (hex: string) => {
     const next = settings.processing.colorKeyColors.filter(c => c.toLowerCase() !== hex.toLowerCase());
     updateProc('colorKeyColors', next.length > 0 ? next : settings.processing.colorKeyColors);
@@ -100,6 +132,14 @@ const Sidebar: React.FC<SidebarProps> = ({
           Load Sprite Sheet
           <input type="file" className="hidden" accept="image/*" onChange={onUpload} />
         </label>
+        <label
+          className="flex items-center justify-center w-full mt-2 px-4 py-1.5 bg-gray-900 hover:bg-gray-800 text-gray-200 border border-gray-700 rounded cursor-pointer transition-colors text-xs"
+          title="Select a sheet image and its data.json / TexturePacker / Aseprite JSON together"
+        >
+          <FileInput className="w-3.5 h-3.5 mr-2" />
+          Import Sheet + Metadata
+          <input type="file" className="hidden" accept="image/*,.json,application/json" multiple onChange={onImport} />
+        </label>
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 space-y-6">
@@ -134,9 +174,25 @@ const Sidebar: React.FC<SidebarProps> = ({
         {/* Grid Settings */}
         {settings.mode === 'grid' && (
           <div className="space-y-3">
-            <h3 className="font-semibold text-gray-300 flex items-center gap-2">
-              <Sliders className="w-4 h-4" /> Grid Dimensions
-            </h3>
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-gray-300 flex items-center gap-2">
+                <Sliders className="w-4 h-4" /> Grid Dimensions
+              </h3>
+              <button
+                type="button"
+                onClick={onAutoDetectGrid}
+                disabled={!hasImage}
+                className={`px-2 py-1 text-[11px] rounded border transition-colors bg-gray-900 text-gray-200 border-gray-700 hover:bg-gray-800 ${!hasImage ? 'opacity-50 cursor-not-allowed' : ''}`}
+                title="Detect cell size and margins from gutters or repeating content"
+              >
+                Auto-Detect Grid
+              </button>
+            </div>
+            {gridConfidence !== null && (
+              <div className={`text-xs ${gridConfidence >= 0.8 ? 'text-green-400' : gridConfidence >= 0.5 ? 'text-yellow-400' : 'text-red-400'}`}>
+                Detection confidence: {Math.round(gridConfidence * 100)}%
+              </div>
+            )}
             <div className="grid grid-cols-2 gap-3">
               <div>
                 <label className="block text-gray-500 text-xs mb-1">Width (px)</label>
@@ -226,6 +282,56 @@ const Sidebar: React.FC<SidebarProps> = ({
                   min="1"
                 />
               </div>
+              <div>
+                <label className="block text-gray-500 text-xs mb-1" title="Join islands whose bounds are this close or overlap">Merge Dist (px)</label>
+                <input 
+                  type="number" 
+                  value={settings.islands.mergeDistance} 
+                  onChange={(e) => updateIslands('mergeDistance', Number(e.target.value))}
+                  className="w-full bg-gray-950 border border-gray-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none" 
+                  min="0"
+                />
+              </div>
+              <div>
+                <label className="block text-gray-500 text-xs mb-1">Connectivity</label>
+                <div className="flex bg-gray-750 rounded p-0.5">
+                  {([4, 8] as const).map(c => (
+                    <button
+                      key={c}
+                      type="button"
+                      onClick={() => updateIslands('connectivity', c)}
+                      className={`flex-1 py-1 rounded text-xs font-medium transition-colors ${settings.islands.connectivity === c ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                      title={c === 4 ? 'Edges only' : 'Edges and diagonals'}
+                    >
+                      {c}-way
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <div>
+              <label className="block text-gray-500 text-xs mb-1">Frame Order</label>
+              <select
+                value={settings.islands.order}
+                onChange={(e) => updateIslands('order', e.target.value)}
+                className="w-full bg-gray-950 border border-gray-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none"
+              >
+                <option value="rows">Rows, left to right</option>
+                <option value="rows-rtl">Rows, right to left</option>
+                <option value="columns">Columns, top to bottom</option>
+                <option value="scan">Scan order</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-gray-500 text-xs mb-1">Alpha Threshold: {settings.islands.alphaThreshold}</label>
+              <input 
+                type="range" 
+                min="0" 
+                max="254" 
+                value={settings.islands.alphaThreshold}
+                onChange={(e) => updateIslands('alphaThreshold', Number(e.target.value))}
+                className="w-full"
+              />
             </div>
           </div>
         )}
@@ -321,6 +427,34 @@ const Sidebar: React.FC<SidebarProps> = ({
                     Detect Edges
                   </button>
                 </div>
+                <div className="flex bg-gray-750 rounded p-1">
+                  <button
+                    onClick={() => updateProc('colorKeyMode', 'global')}
+                    className={`flex-1 py-1.5 rounded text-xs font-medium transition-colors ${settings.processing.colorKeyMode === 'global' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                    title="Remove every matching pixel"
+                  >
+                    Everywhere
+                  </button>
+                  <button
+                    onClick={() => updateProc('colorKeyMode', 'contiguous')}
+                    className={`flex-1 py-1.5 rounded text-xs font-medium transition-colors ${settings.processing.colorKeyMode === 'contiguous' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                    title="Only remove background connected to the frame edges, keeping matching colors inside sprites"
+                  >
+                    Contiguous from Edges
+                  </button>
+                </div>
+                <div>
+                  <label className="block text-gray-500 text-xs mb-1">Color Distance</label>
+                  <select
+                    value={settings.processing.colorKeyMetric}
+                    onChange={(e) => updateProc('colorKeyMetric', e.target.value)}
+                    className="w-full bg-gray-950 border border-gray-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none"
+                  >
+                    <option value="rgb">RGB</option>
+                    <option value="hsv">HSV (hue-weighted)</option>
+                    <option value="lab">CIE Lab ΔE</option>
+                  </select>
+                </div>
                 <div>
                   <label className="block text-gray-500 text-xs mb-1">Tolerance: {settings.processing.colorKeyTolerance}</label>
                   <input 
@@ -343,14 +477,316 @@ const Sidebar: React.FC<SidebarProps> = ({
                     className="w-full"
                   />
                 </div>
+                <div>
+                  <label className="block text-gray-500 text-xs mb-1" title="Removes key-color tint from edge pixels">
+                    Despill: {settings.processing.colorKeyDespill}%
+                  </label>
+                  <input 
+                    type="range" 
+                    min="0" 
+                    max="100" 
+                    value={settings.processing.colorKeyDespill}
+                    onChange={(e) => updateProc('colorKeyDespill', Number(e.target.value))}
+                    className="w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-gray-500 text-xs mb-1" title="Shrinks the alpha to cut off leftover fringe">
+                    Matte Choke: {settings.processing.colorKeyChoke}px
+                  </label>
+                  <input 
+                    type="range" 
+                    min="0" 
+                    max="10" 
+                    value={settings.processing.colorKeyChoke}
+                    onChange={(e) => updateProc('colorKeyChoke', Number(e.target.value))}
+                    className="w-full"
+                  />
+                </div>
               </div>
             )}
           </div>
         </div>
 
-        {isProcessing && (
-           <div className="bg-blue-900/30 text-blue-200 text-xs p-2 rounded animate-pulse">
-             Processing frames...
+        <hr className="border-gray-750" />
+
+        {/* Export Settings */}
+        <div className="space-y-3">
+          <h3 className="font-semibold text-gray-300 flex items-center gap-2">
+            <Package className="w-4 h-4" /> Export
+          </h3>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-gray-500 text-xs mb-1">Prefix</label>
+              <input 
+                type="text" 
+                value={settings.export.prefix} 
+                onChange={(e) => updateExport('prefix', e.target.value)}
+                className="w-full bg-gray-950 border border-gray-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none" 
+              />
+            </div>
+            <div>
+              <label className="block text-gray-500 text-xs mb-1">FPS</label>
+              <input 
+                type="number" 
+                value={settings.export.fps} 
+                onChange={(e) => updateExport('fps', Number(e.target.value))}
+                className="w-full bg-gray-950 border border-gray-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none" 
+                min="1"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-gray-500 text-xs mb-1">Format</label>
+            <select
+              value={settings.export.format}
+              onChange={(e) => updateExport('format', e.target.value)}
+              className="w-full bg-gray-950 border border-gray-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none"
+            >
+              <option value="spriteslice">SpriteSlice JSON</option>
+              <option value="aseprite">Aseprite JSON</option>
+              <option value="godot">Godot SpriteFrames (.tres)</option>
+              <option value="unity">Unity Sprite Sheet (.meta)</option>
+              <option value="css">CSS Sprites</option>
+              <option value="libgdx">libGDX TextureAtlas (.atlas)</option>
+              <option value="cocos">Cocos2d-x (.plist)</option>
+              <option value="sparrow">Sparrow / Starling (.xml)</option>
+            </select>
+          </div>
+
+          {settings.export.format === 'aseprite' && (
+            <div className="flex bg-gray-750 rounded p-1">
+              <button
+                onClick={() => updateExport('asepriteLayout', 'hash')}
+                className={`flex-1 py-1.5 rounded text-xs font-medium transition-colors ${settings.export.asepriteLayout === 'hash' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                title="Frames keyed by filename"
+              >
+                Hash
+              </button>
+              <button
+                onClick={() => updateExport('asepriteLayout', 'array')}
+                className={`flex-1 py-1.5 rounded text-xs font-medium transition-colors ${settings.export.asepriteLayout === 'array' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                title="Frames as an ordered list"
+              >
+                Array
+              </button>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input 
+              type="checkbox" 
+              checked={settings.export.animationPerRow}
+              onChange={(e) => updateExport('animationPerRow', e.target.checked)}
+              className="rounded bg-gray-950 border-gray-700 text-blue-500 focus:ring-0" 
+            />
+            <span className="text-gray-300">One Animation per Row</span>
+          </label>
+
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.export.dedupe}
+              onChange={(e) => updateExport('dedupe', e.target.checked)}
+              className="rounded bg-gray-950 border-gray-700 text-blue-500 focus:ring-0"
+            />
+            <span className="text-gray-300">Store Duplicate Frames Once</span>
+          </label>
+          <div>
+            <label className="block text-gray-500 text-xs mb-1" title="Perceptual hash bits that may differ; 0 only matches identical pixels">
+              Duplicate Tolerance: {settings.export.dedupeTolerance}
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="16"
+              value={settings.export.dedupeTolerance}
+              onChange={(e) => updateExport('dedupeTolerance', Number(e.target.value))}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label className="block text-gray-500 text-xs mb-1" title="Normalized origin for frames without their own pivot (0,0 top-left)">
+              Default Pivot
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              {(['x', 'y'] as const).map(axis => (
+                <input
+                  key={axis}
+                  type="number"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={settings.export.pivot[axis]}
+                  onChange={(e) => updatePivot(axis, Number(e.target.value))}
+                  title={axis.toUpperCase()}
+                  className="w-full bg-gray-950 border border-gray-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none"
+                />
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.export.polygon.enabled}
+              onChange={(e) => updatePolygon('enabled', e.target.checked)}
+              className="rounded bg-gray-950 border-gray-700 text-blue-500 focus:ring-0"
+            />
+            <span className="text-gray-300" title="Traced from each frame's alpha, exported as vertices">Collision Polygons</span>
+          </label>
+          {settings.export.polygon.enabled && (
+            <div className="space-y-3 pl-6">
+              <select
+                value={settings.export.polygon.shape}
+                onChange={(e) => updatePolygon('shape', e.target.value)}
+                className="w-full bg-gray-950 border border-gray-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none"
+              >
+                <option value="outline">Outline</option>
+                <option value="convex">Convex Hull</option>
+                <option value="decompose">Convex Parts</option>
+              </select>
+              <div>
+                <label className="block text-gray-500 text-xs mb-1" title="Douglas-Peucker distance in px; higher gives fewer vertices">
+                  Tolerance: {settings.export.polygon.tolerance}px
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="10"
+                  step="0.5"
+                  value={settings.export.polygon.tolerance}
+                  onChange={(e) => updatePolygon('tolerance', Number(e.target.value))}
+                  className="w-full"
+                />
+              </div>
+              <div>
+                <label className="block text-gray-500 text-xs mb-1" title="Per polygon; Box2D allows 8">Max Vertices</label>
+                <input
+                  type="number"
+                  min="3"
+                  max="256"
+                  value={settings.export.polygon.maxVertices}
+                  onChange={(e) => updatePolygon('maxVertices', Math.max(3, Number(e.target.value)))}
+                  className="w-full bg-gray-950 border border-gray-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none"
+                />
+              </div>
+            </div>
+          )}
+
+          {settings.export.format === 'css' && (
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input 
+                type="checkbox" 
+                checked={settings.export.cssAnimation}
+                onChange={(e) => updateExport('cssAnimation', e.target.checked)}
+                className="rounded bg-gray-950 border-gray-700 text-blue-500 focus:ring-0" 
+              />
+              <span className="text-gray-300">Animation Class</span>
+            </label>
+          )}
+
+          {(settings.export.format === 'godot' || (settings.export.format === 'css' && settings.export.cssAnimation)) && (
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input 
+                type="checkbox" 
+                checked={settings.export.loop}
+                onChange={(e) => updateExport('loop', e.target.checked)}
+                className="rounded bg-gray-950 border-gray-700 text-blue-500 focus:ring-0" 
+              />
+              <span className="text-gray-300">Loop Animation</span>
+            </label>
+          )}
+
+          {settings.export.format === 'unity' ? (
+            <p className="text-xs text-gray-500">Exports the original sheet with Unity slicing metadata.</p>
+          ) : (
+            <>
+              {!atlasOnly && (
+                <div className="flex bg-gray-750 rounded p-1">
+                  <button
+                    onClick={() => updateExport('layout', 'frames')}
+                    className={`flex-1 py-1.5 rounded text-xs font-medium transition-colors ${settings.export.layout === 'frames' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                    title="One PNG per frame"
+                  >
+                    Frames
+                  </button>
+                  <button
+                    onClick={() => updateExport('layout', 'atlas')}
+                    className={`flex-1 py-1.5 rounded text-xs font-medium transition-colors ${settings.export.layout === 'atlas' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                    title="Pack frames into texture atlas pages"
+                  >
+                    Packed Atlas
+                  </button>
+                </div>
+              )}
+
+              {(settings.export.layout === 'atlas' || atlasOnly) && (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-gray-500 text-xs mb-1">Max Size (px)</label>
+                      <input 
+                        type="number" 
+                        value={settings.export.atlas.maxSize} 
+                        onChange={(e) => updateAtlas('maxSize', Number(e.target.value))}
+                        className="w-full bg-gray-950 border border-gray-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none" 
+                        min="16"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-gray-500 text-xs mb-1">Padding (px)</label>
+                      <input 
+                        type="number" 
+                        value={settings.export.atlas.padding} 
+                        onChange={(e) => updateAtlas('padding', Number(e.target.value))}
+                        className="w-full bg-gray-950 border border-gray-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none" 
+                        min="0"
+                      />
+                    </div>
+                  </div>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input 
+                      type="checkbox" 
+                      checked={settings.export.atlas.powerOfTwo}
+                      onChange={(e) => updateAtlas('powerOfTwo', e.target.checked)}
+                      className="rounded bg-gray-950 border-gray-700 text-blue-500 focus:ring-0" 
+                    />
+                    <span className="text-gray-300">Power of Two</span>
+                  </label>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {progress && (
+           <div className="bg-blue-900/30 text-blue-200 text-xs p-2 rounded space-y-1.5">
+             <div className="flex justify-between">
+               <span className="animate-pulse">
+                 {progress.stage === 'detecting' ? 'Detecting islands...' : 'Processing frames...'}
+               </span>
+               {progress.total > 0 && <span className="font-mono">{progress.done}/{progress.total}</span>}
+             </div>
+             {progress.total > 0 && (
+               <div className="h-1 bg-gray-950 rounded overflow-hidden">
+                 <div
+                   className="h-full bg-blue-500 transition-all"
+                   style={{ width: `${(progress.done / progress.total) * 100}%` }}
+                 />
+               </div>
+             )}
+           </div>
+        )}
+
+        {error && (
+           <div className="bg-red-900/30 text-red-300 text-xs p-2 rounded flex items-start gap-2">
+             <span className="flex-1 break-words">{error}</span>
+             <button onClick={onDismissError} className="text-red-400 hover:text-red-200" title="Dismiss">
+               <X className="w-3 h-3" />
+             </button>
            </div>
         )}
       </div>
@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { FrameData } from '../types';
+
+interface TimelineProps {
+  frames: FrameData[]; // In playback order
+  durations: number[]; // ms, aligned with frames
+  position: number;
+  onSeek: (position: number) => void;
+  onChangeDuration: (frameId: string, ms: number | undefined) => void;
+}
+
+const PX_PER_MS = 0.4;
+const MIN_WIDTH = 20;
+const SNAP_MS = 10; // GIF delays have 10ms resolution
+
+const Timeline: React.FC<TimelineProps> = ({ frames, durations, position, onSeek, onChangeDuration }) => {
+  const stripRef = useRef<HTMLDivElement>(null);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+  const [resize, setResize] = useState<{ index: number; startX: number; startMs: number } | null>(null);
+
+  const widths = durations.map(ms => Math.max(MIN_WIDTH, ms * PX_PER_MS));
+
+  // Playback position under a viewport x coordinate
+  const positionAt = (clientX: number) => {
+    const strip = stripRef.current;
+    if (!strip) return position;
+    let x = clientX - strip.getBoundingClientRect().left + strip.scrollLeft;
+    for (let i = 0; i < widths.length; i++) {
+      if (x < widths[i]) return i;
+      x -= widths[i];
+    }
+    return widths.length - 1;
+  };
+
+  useEffect(() => {
+    if (!isScrubbing && !resize) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (resize) {
+        const ms = resize.startMs + (e.clientX - resize.startX) / PX_PER_MS;
+        const snapped = Math.max(SNAP_MS, Math.round(ms / SNAP_MS) * SNAP_MS);
+        onChangeDuration(frames[resize.index].id, snapped);
+      } else {
+        onSeek(positionAt(e.clientX));
+      }
+    };
+    const handleMouseUp = () => {
+      setIsScrubbing(false);
+      setResize(null);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  });
+
+  // Keep the current frame in view while playing or stepping
+  useEffect(() => {
+    const strip = stripRef.current;
+    const el = strip?.children[position] as HTMLElement | undefined;
+    if (!strip || !el) return;
+    if (el.offsetLeft < strip.scrollLeft || el.offsetLeft + el.offsetWidth > strip.scrollLeft + strip.clientWidth) {
+      strip.scrollLeft = el.offsetLeft;
+    }
+  }, [position]);
+
+  return (
+    <div
+      ref={stripRef}
+      className="flex overflow-x-auto bg-gray-950 border border-gray-700 rounded select-none cursor-pointer"
+      onMouseDown={(e) => {
+        setIsScrubbing(true);
+        onSeek(positionAt(e.clientX));
+      }}
+    >
+      {frames.map((frame, i) => (
+        <div
+          key={i}
+          style={{ width: widths[i] }}
+          className={`relative shrink-0 h-14 border-r border-gray-800 flex flex-col items-center justify-between py-1 ${i === position ? 'bg-blue-900/50' : ''}`}
+        >
+          <img src={frame.url} alt="" draggable={false} className="max-h-8 max-w-full object-contain pixelated pointer-events-none" />
+          <span className={`text-[9px] leading-none ${frame.duration !== undefined ? 'text-amber-400' : 'text-gray-500'}`}>
+            {Math.round(durations[i])}
+          </span>
+
+          {/* Drag to change duration, double-click to reset to the default */}
+          <div
+            className="absolute top-0 right-0 h-full w-1.5 cursor-ew-resize hover:bg-blue-500/60"
+            title="Drag to change duration"
+            onMouseDown={(e) => {
+              e.stopPropagation();
+              setResize({ index: i, startX: e.clientX, startMs: durations[i] });
+            }}
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              onChangeDuration(frame.id, undefined);
+            }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default Timeline;
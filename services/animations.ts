@@ -0,0 +1,29 @@
+import { AnimationDirection, AnimationTag } from '../types';
+
+// Expand a frame sequence into one playback cycle. Ping-pong skips the end
+// frames on the way back so looping does not show them twice.
+export const playbackOrder = <T>(items: T[], direction: AnimationDirection): T[] => {
+  if (direction === 'reverse') return [...items].reverse();
+  if (direction === 'pingpong') return [...items, ...items.slice(1, -1).reverse()];
+  return items;
+};
+
+// How long a frame is shown: its own duration, or one tick at the given FPS
+export const frameDuration = (frame: { duration?: number }, fps: number) =>
+  frame.duration ?? 1000 / Math.max(1, fps);
+
+// Positions of a tag's frames in the given frame list, skipping frames that no longer exist
+export const resolveTagIndices = (tag: AnimationTag, frames: { id: string }[]) => {
+  const indexById = new Map(frames.map((f, i) => [f.id, i]));
+  return tag.frameIds
+    .map(id => indexById.get(id))
+    .filter((i): i is number => i !== undefined);
+};
+
+// Pick a name not used by any existing tag, e.g. "anim_3"
+export const nextAnimationName = (tags: AnimationTag[]) => {
+  const used = new Set(tags.map(t => t.name));
+  let n = tags.length + 1;
+  while (used.has(`anim_${n}`)) n++;
+  return `anim_${n}`;
+};
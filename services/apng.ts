@@ -0,0 +1,168 @@
+import { FrameData } from '../types';
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const readChunks = (bytes: Uint8Array): PngChunk[] => {
+  for (let i = 0; i < PNG_SIGNATURE.length; i++) {
+    if (bytes[i] !== PNG_SIGNATURE[i]) throw new Error('Frame is not a PNG image');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let p = 8;
+  while (p + 8 <= bytes.length) {
+    const length = view.getUint32(p);
+    const type = String.fromCharCode(bytes[p + 4], bytes[p + 5], bytes[p + 6], bytes[p + 7]);
+    chunks.push({ type, data: bytes.subarray(p + 8, p + 8 + length) });
+    p += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+const makeChunk = (type: string, data: Uint8Array) => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+const fcTL = (
+  seq: number,
+  w: number,
+  h: number,
+  x: number,
+  y: number,
+  delayMs: number
+) => {
+  const data = new Uint8Array(26);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, seq);
+  view.setUint32(4, w);
+  view.setUint32(8, h);
+  view.setUint32(12, x);
+  view.setUint32(16, y);
+  view.setUint16(20, Math.max(1, Math.round(delayMs)));
+  view.setUint16(22, 1000); // Delay is expressed in milliseconds
+  data[24] = 1; // dispose_op: clear the frame region before the next one
+  data[25] = 0; // blend_op: source (keeps full alpha)
+  return makeChunk('fcTL', data);
+};
+
+// IHDR fields after width/height: bit depth, color type, compression, filter, interlace
+const headerSignature = (ihdr: Uint8Array) => Array.from(ihdr.subarray(8, 13)).join(',');
+
+// Redraw a frame onto its untrimmed canvas. Needed for the first frame, which
+// doubles as the PNG default image and must cover the whole canvas.
+const encodePaddedFrame = async (frame: FrameData, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create APNG canvas');
+  const bitmap = await createImageBitmap(frame.blob);
+  ctx.drawImage(bitmap, frame.trimOffset?.x ?? 0, frame.trimOffset?.y ?? 0);
+  bitmap.close();
+  const blob = await new Promise<Blob | null>(r => canvas.toBlob(r, 'image/png'));
+  if (!blob) throw new Error('Could not encode APNG frame');
+  return blob;
+};
+
+// Assemble an APNG from the frames' existing PNG blobs. Trimmed frames are
+// placed back at their trimOffset through fcTL offsets instead of re-encoding.
+// loopCount 0 loops forever.
+export const encodeApng = async (
+  frames: FrameData[],
+  delaysMs: number[],
+  loopCount: number = 0
+): Promise<Blob> => {
+  if (frames.length === 0) throw new Error('No frames to encode');
+
+  const width = Math.max(...frames.map(f => f.originalSize?.w ?? f.rect.w));
+  const height = Math.max(...frames.map(f => f.originalSize?.h ?? f.rect.h));
+
+  const parts: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE)];
+  let seq = 0;
+  let signature: string | null = null;
+
+  for (let i = 0; i < frames.length; i++) {
+    const f = frames[i];
+    const x = f.trimOffset?.x ?? 0;
+    const y = f.trimOffset?.y ?? 0;
+
+    const coversCanvas = x === 0 && y === 0 &&
+      (f.trimmedSize?.w ?? f.rect.w) === width && (f.trimmedSize?.h ?? f.rect.h) === height;
+    const blob = i === 0 && !coversCanvas ? await encodePaddedFrame(f, width, height) : f.blob;
+
+    const chunks = readChunks(new Uint8Array(await blob.arrayBuffer()));
+    const ihdr = chunks.find(c => c.type === 'IHDR');
+    if (!ihdr) throw new Error('Frame PNG has no IHDR chunk');
+    const fw = new DataView(ihdr.data.buffer, ihdr.data.byteOffset).getUint32(0);
+    const fh = new DataView(ihdr.data.buffer, ihdr.data.byteOffset).getUint32(4);
+
+    // Every frame shares the IHDR pixel format of the default image
+    const sig = headerSignature(ihdr.data);
+    if (signature === null) {
+      signature = sig;
+      const header = new Uint8Array(ihdr.data);
+      const view = new DataView(header.buffer);
+      view.setUint32(0, width);
+      view.setUint32(4, height);
+      parts.push(makeChunk('IHDR', header));
+
+      const actl = new Uint8Array(8);
+      new DataView(actl.buffer).setUint32(0, frames.length);
+      new DataView(actl.buffer).setUint32(4, Math.max(0, loopCount));
+      parts.push(makeChunk('acTL', actl));
+    } else if (sig !== signature) {
+      throw new Error('Frame PNGs use different pixel formats and cannot be combined');
+    }
+
+    const ox = i === 0 ? 0 : x;
+    const oy = i === 0 ? 0 : y;
+    parts.push(fcTL(seq++, fw, fh, ox, oy, delaysMs[i]));
+
+    for (const c of chunks) {
+      if (c.type !== 'IDAT') continue;
+      if (i === 0) {
+        parts.push(makeChunk('IDAT', c.data));
+      } else {
+        const data = new Uint8Array(4 + c.data.length);
+        new DataView(data.buffer).setUint32(0, seq++);
+        data.set(c.data, 4);
+        parts.push(makeChunk('fdAT', data));
+      }
+    }
+  }
+
+  parts.push(makeChunk('IEND', new Uint8Array(0)));
+  return new Blob(parts as BlobPart[], { type: 'image/png' });
+};
+
+export const exportApng = (
+  frames: FrameData[],
+  options: { delaysMs: number[]; loopCount: number }
+) => encodeApng(frames, options.delaysMs, options.loopCount);
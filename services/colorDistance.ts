@@ -0,0 +1,59 @@
+import { AppSettings } from '../types';
+
+type RGB = { r: number; g: number; b: number };
+type ColorMetric = AppSettings['processing']['colorKeyMetric'];
+
+// sRGB channel to linear light
+const LINEAR = Array.from({ length: 256 }, (_, i) => {
+  const c = i / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+});
+
+const labF = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+
+// CIE L*a*b* under D65
+export const rgbToLab = (r: number, g: number, b: number) => {
+  const lr = LINEAR[r], lg = LINEAR[g], lb = LINEAR[b];
+  const x = labF((lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047);
+  const y = labF(lr * 0.2126 + lg * 0.7152 + lb * 0.0722);
+  const z = labF((lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883);
+  return { l: 116 * y - 16, a: 500 * (x - y), b: 200 * (y - z) };
+};
+
+// Hue in degrees, saturation and value 0-1
+export const rgbToHsv = (r: number, g: number, b: number) => {
+  const max = Math.max(r, g, b);
+  const d = max - Math.min(r, g, b);
+  let h = 0;
+  if (d > 0) {
+    if (max === r) h = ((g - b) / d + 6) % 6;
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+  }
+  return { h: h * 60, s: max === 0 ? 0 : d / max, v: max / 255 };
+};
+
+// Distance from a pixel to one key color, with the key converted up front.
+// RGB is Euclidean (0-441); Lab is CIE76 delta E, where ~2 is just noticeable;
+// HSV weighs hue over brightness, scaled to roughly the RGB range, so
+// shaded or JPEG-noisy backgrounds of one hue still match.
+export const keyDistance = (key: RGB, metric: ColorMetric): ((r: number, g: number, b: number) => number) => {
+  if (metric === 'lab') {
+    const k = rgbToLab(key.r, key.g, key.b);
+    return (r, g, b) => {
+      const p = rgbToLab(r, g, b);
+      return Math.hypot(p.l - k.l, p.a - k.a, p.b - k.b);
+    };
+  }
+  if (metric === 'hsv') {
+    const k = rgbToHsv(key.r, key.g, key.b);
+    return (r, g, b) => {
+      const p = rgbToHsv(r, g, b);
+      const dh = Math.min(Math.abs(p.h - k.h), 360 - Math.abs(p.h - k.h)) / 180;
+      // Hue means little for greys, so it only counts as far as both colors are saturated
+      const hue = 2 * dh * Math.min(p.s, k.s);
+      return 255 * Math.hypot(hue, p.s - k.s, 0.5 * (p.v - k.v));
+    };
+  }
+  return (r, g, b) => Math.hypot(r - key.r, g - key.g, b - key.b);
+};
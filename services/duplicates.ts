@@ -0,0 +1,42 @@
+import { FrameData } from '../types';
+import { hashDistance } from './processor';
+
+const sizeKey = (f: FrameData) =>
+  `${f.trimmedSize?.w ?? f.rect.w}x${f.trimmedSize?.h ?? f.rect.h}`;
+
+// Map each duplicate frame id to the id of the first frame with the same image.
+// Frames must share their trimmed size; exact pixel hashes always match, and a
+// tolerance above 0 also accepts perceptual hashes that differ by that many bits.
+export const findDuplicates = (frames: FrameData[], tolerance: number = 0) => {
+  const duplicates = new Map<string, string>();
+  const exact = new Map<string, string>();
+  const originals = new Map<string, FrameData[]>(); // By size, for perceptual matching
+
+  for (const f of frames) {
+    if (!f.pixelHash) continue;
+    const size = sizeKey(f);
+
+    const same = exact.get(`${size}:${f.pixelHash}`);
+    if (same !== undefined) {
+      duplicates.set(f.id, same);
+      continue;
+    }
+
+    if (tolerance > 0 && f.perceptualHash) {
+      const near = originals.get(size)?.find(o =>
+        o.perceptualHash && hashDistance(o.perceptualHash, f.perceptualHash!) <= tolerance
+      );
+      if (near) {
+        duplicates.set(f.id, near.id);
+        continue;
+      }
+    }
+
+    exact.set(`${size}:${f.pixelHash}`, f.id);
+    const list = originals.get(size);
+    if (list) list.push(f);
+    else originals.set(size, [f]);
+  }
+
+  return duplicates;
+};
@@ -0,0 +1,207 @@
+import JSZip from 'jszip';
+import { AnimationTag, AppSettings, ExportFormat, ExportFrame, ExportPage, FrameData } from '../types';
+import { packRects } from './packer';
+import { findDuplicates } from './duplicates';
+import { buildSpriteSliceJson } from './formats/spriteslice';
+import { buildAsepriteJson } from './formats/aseprite';
+import { buildGodotSpriteFrames, buildGodotStyleBox } from './formats/godot';
+import { buildUnityMeta } from './formats/unity';
+import { buildCssSprites } from './formats/css';
+import { buildLibgdxAtlas } from './formats/libgdx';
+import { buildCocosPlist } from './formats/cocos';
+import { buildSparrowXml } from './formats/sparrow';
+import { pageMetaFilename } from './formats/common';
+
+// Formats that only make sense against a packed sheet, regardless of the layout setting
+export const ATLAS_ONLY_FORMATS: ExportFormat[] = ['css', 'cocos', 'sparrow'];
+
+export const getFrameFilename = (prefix: string, index: number) =>
+  `${prefix}_${index.toString().padStart(3, '0')}.png`;
+
+// Filenames for every frame: imported rects keep their original names,
+// everything else is numbered from the prefix
+const getExportFilenames = (frames: FrameData[], prefix: string) => {
+  const used = new Set<string>();
+  return frames.map((f, i) => {
+    const base = f.rect.name || getFrameFilename(prefix, i).replace(/\.png$/, '');
+    let filename = `${base}.png`;
+    // A suffixed name can itself be taken, e.g. "walk_1" next to a second "walk"
+    for (let n = i; used.has(filename); n++) filename = `${base}_${n}.png`;
+    used.add(filename);
+    return filename;
+  });
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob | null>(r => canvas.toBlob(r, 'image/png'));
+
+// Lay out frames as one PNG per frame (each unique frame is its own page)
+const layoutFrames = (frames: FrameData[], prefix: string, duplicates = new Map<string, string>()) => {
+  const pages: ExportPage[] = [];
+  const filenames = getExportFilenames(frames, prefix);
+  const byId = new Map<string, ExportFrame>();
+  const exportFrames: ExportFrame[] = frames.map((frame, i) => {
+    const filename = filenames[i];
+    const w = frame.trimmedSize?.w ?? frame.rect.w;
+    const h = frame.trimmedSize?.h ?? frame.rect.h;
+    const original = byId.get(duplicates.get(frame.id) ?? '');
+    const ef: ExportFrame = original
+      ? { frame, filename, page: original.page, x: 0, y: 0, w, h, duplicateOf: original.filename }
+      : { frame, filename, page: pages.length, x: 0, y: 0, w, h };
+    if (!original) pages.push({ filename: `frames/${filename}`, width: w, height: h, blob: frame.blob });
+    byId.set(frame.id, ef);
+    return ef;
+  });
+  return { frames: exportFrames, pages };
+};
+
+// Bin-pack frames into one or more atlas pages; duplicates share their original's region
+const layoutAtlas = async (
+  frames: FrameData[],
+  settings: AppSettings['export'],
+  duplicates = new Map<string, string>()
+) => {
+  const packed = packRects(
+    frames.filter(f => !duplicates.has(f.id)).map(f => ({
+      id: f.id,
+      w: f.trimmedSize?.w ?? f.rect.w,
+      h: f.trimmedSize?.h ?? f.rect.h
+    })),
+    settings.atlas
+  );
+
+  const placement = new Map(packed.flatMap(p => p.rects).map(r => [r.id, r]));
+  const filenames = getExportFilenames(frames, settings.prefix);
+  const filenameById = new Map(frames.map((f, i) => [f.id, filenames[i]]));
+  const exportFrames: ExportFrame[] = frames.map((frame, i) => {
+    const originalId = duplicates.get(frame.id);
+    const r = placement.get(originalId ?? frame.id)!;
+    return {
+      frame,
+      filename: filenames[i],
+      page: r.page,
+      x: r.x,
+      y: r.y,
+      w: r.w,
+      h: r.h,
+      ...(originalId !== undefined ? { duplicateOf: filenameById.get(originalId) } : {})
+    };
+  });
+
+  const pages: ExportPage[] = [];
+  for (let p = 0; p < packed.length; p++) {
+    const { width, height } = packed[p];
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create atlas canvas');
+
+    for (const ef of exportFrames) {
+      if (ef.page !== p || ef.duplicateOf) continue;
+      const bitmap = await createImageBitmap(ef.frame.blob);
+      ctx.drawImage(bitmap, ef.x, ef.y);
+      bitmap.close();
+    }
+
+    const blob = await canvasToBlob(canvas);
+    if (!blob) throw new Error('Could not encode atlas page');
+    const filename = packed.length === 1 ? `${settings.prefix}.png` : `${settings.prefix}_${p}.png`;
+    pages.push({ filename, width, height, blob });
+  }
+
+  return { frames: exportFrames, pages };
+};
+
+// Re-encode the source sheet as PNG with every frame region replaced by its
+// processed pixels, so color keying carries over to engines that slice the sheet
+const encodeSheet = async (image: HTMLImageElement, frames: FrameData[]) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create sheet canvas');
+  ctx.drawImage(image, 0, 0);
+  for (const frame of frames) {
+    const { x, y, w, h } = frame.rect;
+    const bitmap = await createImageBitmap(frame.blob);
+    ctx.clearRect(x, y, w, h);
+    ctx.drawImage(bitmap, x + (frame.trimOffset?.x ?? 0), y + (frame.trimOffset?.y ?? 0));
+    bitmap.close();
+  }
+  const blob = await canvasToBlob(canvas);
+  if (!blob) throw new Error('Could not encode sprite sheet');
+  return blob;
+};
+
+export const layoutExport = (frames: FrameData[], settings: AppSettings['export']) => {
+  const duplicates = settings.dedupe ? findDuplicates(frames, settings.dedupeTolerance) : new Map<string, string>();
+  return settings.layout === 'atlas'
+    ? layoutAtlas(frames, settings, duplicates)
+    : Promise.resolve(layoutFrames(frames, settings.prefix, duplicates));
+};
+
+export const buildExportZip = async (
+  generatedFrames: FrameData[],
+  image: HTMLImageElement | null,
+  settings: AppSettings,
+  animations: AnimationTag[] = []
+) => {
+  const zip = new JSZip();
+
+  // Unity slices the sheet itself, so it gets the (processed) sheet instead of frame images
+  if (settings.export.format === 'unity') {
+    if (!image) throw new Error('No sprite sheet loaded');
+    const { frames } = layoutFrames(generatedFrames, settings.export.prefix);
+    zip.file("spritesheet.png", await encodeSheet(image, generatedFrames));
+    zip.file("spritesheet.png.meta", buildUnityMeta(frames, image.height, settings.export.pivot, settings.export.prefix));
+    return zip.generateAsync({ type: "blob" });
+  }
+
+  const exportSettings = ATLAS_ONLY_FORMATS.includes(settings.export.format)
+    ? { ...settings.export, layout: 'atlas' as const }
+    : settings.export;
+  const { frames, pages } = await layoutExport(generatedFrames, exportSettings);
+
+  // 1. Add images (individual frames or atlas pages)
+  pages.forEach(p => zip.file(p.filename, p.blob));
+
+  // 2. Add metadata for the chosen target
+  switch (settings.export.format) {
+    case 'aseprite': {
+      const metadata = buildAsepriteJson(frames, pages, settings.export, animations);
+      zip.file(`${settings.export.prefix}.json`, JSON.stringify(metadata, null, 2));
+      break;
+    }
+    case 'godot':
+      zip.file(`${settings.export.prefix}.tres`, buildGodotSpriteFrames(frames, pages, settings.export, animations));
+      // Frames with nine-slice borders also get a StyleBoxTexture next to the SpriteFrames
+      frames.forEach(ef => {
+        const styleBox = buildGodotStyleBox(ef, pages);
+        if (styleBox) zip.file(`styles/${ef.filename.replace(/\.png$/i, '.tres')}`, styleBox);
+      });
+      break;
+    case 'libgdx':
+      zip.file(`${settings.export.prefix}.atlas`, buildLibgdxAtlas(frames, pages, settings.export));
+      break;
+    case 'cocos':
+      pages.forEach((page, p) => {
+        zip.file(pageMetaFilename(page, '.plist'), buildCocosPlist(frames.filter(ef => ef.page === p), page));
+      });
+      break;
+    case 'sparrow':
+      pages.forEach((page, p) => {
+        zip.file(pageMetaFilename(page, '.xml'), buildSparrowXml(frames.filter(ef => ef.page === p), page, settings.export.pivot));
+      });
+      break;
+    case 'css':
+      zip.file(`${settings.export.prefix}.css`, buildCssSprites(frames, pages, settings.export, animations));
+      break;
+    default: {
+      const metadata = buildSpriteSliceJson(frames, pages, image, settings.export, animations);
+      zip.file("data.json", JSON.stringify(metadata, null, 2));
+    }
+  }
+
+  return zip.generateAsync({ type: "blob" });
+};
@@ -0,0 +1,86 @@
+import { AnimationTag, AppSettings, ExportFrame, ExportPage } from '../../types';
+import { getAnimations, getFrameBorder, getPagesMeta, getTrimInfo } from './common';
+import { frameDuration } from '../animations';
+import { toExportBox } from '../hitboxes';
+import { collisionPolygons } from '../polygon';
+
+// Aseprite `--data` style JSON, in either its hash or array layout
+export const buildAsepriteJson = (
+  frames: ExportFrame[],
+  pages: ExportPage[],
+  settings: AppSettings['export'],
+  tags: AnimationTag[] = []
+) => {
+  const isAtlas = settings.layout === 'atlas';
+  const entries = frames.map(ef => {
+    const { offX, offY, ow, oh, trimmed } = getTrimInfo(ef);
+    const vertices = collisionPolygons(ef.frame, settings.polygon);
+    return {
+      filename: ef.filename,
+      frame: { x: ef.x, y: ef.y, w: ef.w, h: ef.h },
+      rotated: false,
+      trimmed,
+      spriteSourceSize: { x: offX, y: offY, w: ef.w, h: ef.h },
+      sourceSize: { w: ow, h: oh },
+      ...(ef.duplicateOf ? { duplicateOf: ef.duplicateOf } : {}),
+      duration: Math.round(frameDuration(ef.frame, settings.fps)),
+      pivot: ef.frame.pivot ?? settings.pivot,
+      ...(ef.frame.boxes?.length ? { boxes: ef.frame.boxes.map(toExportBox) } : {}),
+      // Polygons in untrimmed frame pixels, clockwise on screen
+      ...(vertices.length ? { vertices } : {})
+    };
+  });
+
+  // Aseprite tags are ranges, so an animation over scattered or reordered
+  // frames becomes one tag per run of consecutive frames, numbered in order
+  const frameTags = getAnimations(frames, settings, tags).flatMap(anim => {
+    const runs: { from: number; to: number }[] = [];
+    for (const i of anim.indices) {
+      const run = runs[runs.length - 1];
+      if (run && i === run.to + 1) run.to = i;
+      else runs.push({ from: i, to: i });
+    }
+    return runs.map((run, k) => ({
+      name: runs.length > 1 ? `${anim.name}_${k}` : anim.name,
+      from: run.from,
+      to: run.to,
+      direction: anim.direction,
+      color: '#000000ff',
+      ...(anim.loop > 0 ? { repeat: String(anim.loop) } : {})
+    }));
+  });
+
+  // Nine-slice borders become one slice per frame, keyed on that frame only
+  const slices = frames.flatMap((ef, i) => {
+    const b = getFrameBorder(ef);
+    if (!b) return [];
+    const { ow, oh } = getTrimInfo(ef);
+    return [{
+      name: ef.filename.replace(/\.png$/i, ''),
+      color: '#0000ffff',
+      keys: [{
+        frame: i,
+        bounds: { x: 0, y: 0, w: ow, h: oh },
+        center: { x: b.left, y: b.top, w: ow - b.left - b.right, h: oh - b.top - b.bottom }
+      }]
+    }];
+  });
+
+  return {
+    frames: settings.asepriteLayout === 'array'
+      ? entries
+      : Object.fromEntries(entries.map(({ filename, ...rest }) => [filename, rest])),
+    meta: {
+      app: "https://www.aseprite.org/",
+      version: "1.3",
+      image: isAtlas ? pages[0]?.filename : undefined,
+      format: "RGBA8888",
+      size: isAtlas ? { w: pages[0]?.width, h: pages[0]?.height } : undefined,
+      scale: "1",
+      frameTags,
+      layers: [],
+      slices,
+      ...getPagesMeta(pages, isAtlas)
+    }
+  };
+};
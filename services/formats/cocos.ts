@@ -0,0 +1,54 @@
+import { ExportFrame, ExportPage } from '../../types';
+import { escapeXml, getTrimInfo } from './common';
+
+// Cocos2d-x plist (format 3) describing a single atlas page.
+// spriteOffset is the trimmed centre relative to the original centre, Y up.
+export const buildCocosPlist = (frames: ExportFrame[], page: ExportPage) => {
+  const entries = frames.map(ef => {
+    const { offX, offY, ow, oh } = getTrimInfo(ef);
+    const cx = offX + ef.w / 2 - ow / 2;
+    const cy = oh / 2 - (offY + ef.h / 2);
+    return `        <key>${escapeXml(ef.filename)}</key>
+        <dict>
+            <key>aliases</key>
+            <array/>
+            <key>spriteOffset</key>
+            <string>{${cx},${cy}}</string>
+            <key>spriteSize</key>
+            <string>{${ef.w},${ef.h}}</string>
+            <key>spriteSourceSize</key>
+            <string>{${ow},${oh}}</string>
+            <key>textureRect</key>
+            <string>{{${ef.x},${ef.y}},{${ef.w},${ef.h}}}</string>
+            <key>textureRotated</key>
+            <false/>
+        </dict>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple Computer//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+    <dict>
+        <key>frames</key>
+        <dict>
+${entries.join('\n')}
+        </dict>
+        <key>metadata</key>
+        <dict>
+            <key>format</key>
+            <integer>3</integer>
+            <key>pixelFormat</key>
+            <string>RGBA8888</string>
+            <key>premultiplyAlpha</key>
+            <false/>
+            <key>realTextureFileName</key>
+            <string>${escapeXml(page.filename)}</string>
+            <key>size</key>
+            <string>{${page.width},${page.height}}</string>
+            <key>textureFileName</key>
+            <string>${escapeXml(page.filename)}</string>
+        </dict>
+    </dict>
+</plist>
+`;
+};
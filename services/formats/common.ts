@@ -0,0 +1,106 @@
+import { AnimationDirection, AnimationTag, AppSettings, ExportFrame, ExportPage } from '../../types';
+import { resolveTagIndices } from '../animations';
+
+// Trim data of an exported frame relative to its original source rect
+export const getTrimInfo = (ef: ExportFrame) => {
+  const f = ef.frame;
+  // Offset from original source rect
+  const offX = f.trimOffset?.x ?? 0;
+  const offY = f.trimOffset?.y ?? 0;
+  // Original size
+  const ow = f.originalSize?.w ?? f.rect.w;
+  const oh = f.originalSize?.h ?? f.rect.h;
+  // Is it trimmed?
+  const trimmed = !!f.trimOffset && (ef.w !== ow || ef.h !== oh);
+  return { offX, offY, ow, oh, trimmed };
+};
+
+// Nine-slice insets of the untrimmed frame. Stored borders are only clamped
+// while dragging guides, so they are fitted to the frame again here: opposite
+// insets never overlap and the stretchable centre is never negative.
+export const getFrameBorder = (ef: ExportFrame) => {
+  const b = ef.frame.border;
+  if (!b) return null;
+  const { ow, oh } = getTrimInfo(ef);
+  const left = Math.min(ow, Math.max(0, b.left));
+  const top = Math.min(oh, Math.max(0, b.top));
+  return {
+    left,
+    top,
+    right: Math.min(ow - left, Math.max(0, b.right)),
+    bottom: Math.min(oh - top, Math.max(0, b.bottom))
+  };
+};
+
+// Nine-slice insets of the exported image. Borders are set on the untrimmed
+// frame, so whatever auto-trim removed comes off them first.
+export const getTrimmedBorder = (ef: ExportFrame) => {
+  const b = getFrameBorder(ef);
+  if (!b) return null;
+  const { offX, offY, ow, oh } = getTrimInfo(ef);
+  return {
+    left: Math.max(0, b.left - offX),
+    top: Math.max(0, b.top - offY),
+    right: Math.max(0, b.right - (ow - offX - ef.w)),
+    bottom: Math.max(0, b.bottom - (oh - offY - ef.h))
+  };
+};
+
+// Extra meta listing every page, only needed when an atlas spills over onto several pages
+export const getPagesMeta = (pages: ExportPage[], isAtlas: boolean) =>
+  isAtlas && pages.length > 1
+    ? { pages: pages.map(p => ({ image: p.filename, size: { w: p.width, h: p.height } })) }
+    : {};
+
+export const escapeXml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Metadata filename sitting next to an atlas page, e.g. "hero_1.png" -> "hero_1.xml"
+export const pageMetaFilename = (page: ExportPage, ext: string) =>
+  page.filename.replace(/\.[^.]+$/, '') + ext;
+
+export interface ExportAnimation {
+  name: string;
+  indices: number[]; // Positions in the exported frame list, in tag order
+  direction: AnimationDirection;
+  loop: number; // Times to play, 0 = forever
+  fps: number;
+}
+
+// Animations to write. Animation tags win when there are any; otherwise
+// everything is one animation named after the prefix, or one per sheet row
+// when grouping by row.
+export const getAnimations = (
+  frames: ExportFrame[],
+  settings: AppSettings['export'],
+  tags: AnimationTag[] = []
+): ExportAnimation[] => {
+  const tagged = tags
+    .map(tag => ({
+      name: tag.name,
+      indices: resolveTagIndices(tag, frames.map(ef => ef.frame)),
+      direction: tag.direction,
+      loop: tag.loop,
+      fps: tag.fps
+    }))
+    .filter(anim => anim.indices.length > 0);
+  if (tagged.length > 0) return tagged;
+
+  const groups = new Map<string, number[]>();
+  frames.forEach((ef, i) => {
+    const row = ef.frame.rect.row;
+    const name = settings.animationPerRow && row !== undefined
+      ? `${settings.prefix}_row${row}`
+      : settings.prefix;
+    const indices = groups.get(name);
+    if (indices) indices.push(i);
+    else groups.set(name, [i]);
+  });
+  return Array.from(groups, ([name, indices]) => ({
+    name,
+    indices,
+    direction: 'forward' as const,
+    loop: settings.loop ? 0 : 1,
+    fps: settings.fps
+  }));
+};
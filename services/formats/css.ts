@@ -0,0 +1,91 @@
+import { AnimationTag, AppSettings, ExportFrame, ExportPage } from '../../types';
+import { frameDuration, playbackOrder } from '../animations';
+import { getAnimations, getTrimInfo } from './common';
+
+// Make a prefix safe to use as a CSS class name
+export const toCssIdent = (name: string) => {
+  const ident = name.replace(/[^A-Za-z0-9_-]/g, '-');
+  return /^(-?\d|--)/.test(ident) || ident === '' ? `_${ident}` : ident;
+};
+
+const px = (v: number) => (v === 0 ? '0' : `${v}px`);
+
+// Trimmed frames sit at their trim offset inside a box of the untrimmed size:
+// padding makes up the trimmed-away edges and the background is clipped to
+// the content box, so neighbouring atlas regions never show through
+const frameBox = (ef: ExportFrame) => {
+  const { offX, offY, ow, oh } = getTrimInfo(ef);
+  const padding = [offY, ow - offX - ef.w, oh - offY - ef.h, offX];
+  return {
+    width: px(ef.w),
+    height: px(ef.h),
+    padding: padding.some(v => v !== 0) ? padding.map(px).join(' ') : '0',
+    position: `${px(-ef.x)} ${px(-ef.y)}`
+  };
+};
+
+// Stylesheet for CSS sprites: one class per frame plus an optional
+// keyframe animation that jumps between frame positions with steps().
+export const buildCssSprites = (
+  frames: ExportFrame[],
+  pages: ExportPage[],
+  settings: AppSettings['export'],
+  tags: AnimationTag[] = []
+) => {
+  const base = toCssIdent(settings.prefix);
+  const lines: string[] = [];
+
+  lines.push(`.${base} {`);
+  lines.push('  display: inline-block;');
+  lines.push(`  background-image: url('${pages[0]?.filename}');`);
+  lines.push('  background-repeat: no-repeat;');
+  lines.push('  box-sizing: content-box;');
+  lines.push('  background-origin: content-box;');
+  lines.push('  background-clip: content-box;');
+  lines.push('}', '');
+
+  frames.forEach((ef, i) => {
+    lines.push(`.${base}-${i.toString().padStart(3, '0')} {`);
+    if (ef.page !== 0) lines.push(`  background-image: url('${pages[ef.page].filename}');`);
+    const box = frameBox(ef);
+    lines.push(`  width: ${box.width};`);
+    lines.push(`  height: ${box.height};`);
+    lines.push(`  padding: ${box.padding};`);
+    lines.push(`  background-position: ${box.position};`);
+    lines.push('}', '');
+  });
+
+  const keyframe = (pct: string, ef: ExportFrame) => {
+    const image = pages.length > 1 ? ` background-image: url('${pages[ef.page].filename}');` : '';
+    const box = frameBox(ef);
+    return `  ${pct} { width: ${box.width}; height: ${box.height}; padding: ${box.padding}; background-position: ${box.position};${image} }`;
+  };
+
+  const animations = settings.cssAnimation ? getAnimations(frames, settings, tags) : [];
+  for (const anim of animations) {
+    const name = `${toCssIdent(anim.name)}-anim`;
+    const animFrames = playbackOrder(anim.indices, anim.direction).map(i => frames[i]);
+    const n = animFrames.length;
+    const durations = animFrames.map(ef => frameDuration(ef.frame, anim.fps));
+    const total = durations.reduce((sum, ms) => sum + ms, 0);
+
+    // Each keyframe starts where the previous frames' durations end
+    lines.push(`@keyframes ${name} {`);
+    let elapsed = 0;
+    animFrames.forEach((ef, i) => {
+      lines.push(keyframe(`${+(elapsed / total * 100).toFixed(4)}%`, ef));
+      elapsed += durations[i];
+    });
+    lines.push(keyframe('100%', animFrames[n - 1]));
+    lines.push('}', '');
+
+    // steps(1) holds each keyframe until the next one instead of tweening
+    const duration = +(total / 1000).toFixed(4);
+    const iterations = anim.loop === 0 ? 'infinite' : `${anim.loop} forwards`;
+    lines.push(`.${name} {`);
+    lines.push(`  animation: ${name} ${duration}s steps(1, end) ${iterations};`);
+    lines.push('}', '');
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,78 @@
+import { AnimationTag, AppSettings, ExportFrame, ExportPage } from '../../types';
+import { frameDuration, playbackOrder } from '../animations';
+import { getAnimations, getTrimInfo, getTrimmedBorder } from './common';
+
+const num = (v: number) => (Number.isInteger(v) ? `${v}.0` : `${v}`);
+
+// Godot 4 SpriteFrames resource with one AtlasTexture per frame.
+// Paths assume the zip is extracted into the project root (res://).
+export const buildGodotSpriteFrames = (
+  frames: ExportFrame[],
+  pages: ExportPage[],
+  settings: AppSettings['export'],
+  tags: AnimationTag[] = []
+) => {
+  const usedPages = pages.filter((_, i) => frames.some(ef => ef.page === i));
+  const pageIds = new Map(usedPages.map((p, i) => [p, `${i + 1}`]));
+  const loadSteps = usedPages.length + frames.length + 1;
+
+  const lines: string[] = [];
+  lines.push(`[gd_resource type="SpriteFrames" load_steps=${loadSteps} format=3]`, '');
+
+  for (const page of usedPages) {
+    lines.push(`[ext_resource type="Texture2D" path="res://${page.filename}" id="${pageIds.get(page)}"]`);
+  }
+  lines.push('');
+
+  frames.forEach((ef, i) => {
+    const { offX, offY, ow, oh, trimmed } = getTrimInfo(ef);
+    lines.push(`[sub_resource type="AtlasTexture" id="AtlasTexture_${i}"]`);
+    lines.push(`atlas = ExtResource("${pageIds.get(pages[ef.page])}")`);
+    lines.push(`region = Rect2(${ef.x}, ${ef.y}, ${ef.w}, ${ef.h})`);
+    if (trimmed) {
+      // Margin restores the transparent border removed by auto-trim
+      lines.push(`margin = Rect2(${offX}, ${offY}, ${ow - ef.w}, ${oh - ef.h})`);
+    }
+    lines.push('');
+  });
+
+  // SpriteFrames only plays forward, so reverse and ping-pong are written out frame by frame.
+  // Looping is on/off only: any finite loop count plays once.
+  const animations = getAnimations(frames, settings, tags).map(anim => {
+    // Frame duration is relative to one tick at the animation speed
+    const frameEntries = playbackOrder(anim.indices, anim.direction).map(i => `{
+"duration": ${num(+(frameDuration(frames[i].frame, anim.fps) * anim.fps / 1000).toFixed(4))},
+"texture": SubResource("AtlasTexture_${i}")
+}`);
+    return `{
+"frames": [${frameEntries.join(', ')}],
+"loop": ${anim.loop === 0},
+"name": &"${anim.name}",
+"speed": ${num(anim.fps)}
+}`;
+  });
+
+  lines.push('[resource]');
+  lines.push(`animations = [${animations.join(', ')}]`);
+
+  return lines.join('\n') + '\n';
+};
+
+// Godot 4 StyleBoxTexture for a frame with nine-slice borders, for use on
+// Panels and Buttons. Returns null for frames without borders.
+export const buildGodotStyleBox = (ef: ExportFrame, pages: ExportPage[]) => {
+  const border = getTrimmedBorder(ef);
+  if (!border) return null;
+  return `[gd_resource type="StyleBoxTexture" load_steps=2 format=3]
+
+[ext_resource type="Texture2D" path="res://${pages[ef.page].filename}" id="1"]
+
+[resource]
+texture = ExtResource("1")
+texture_margin_left = ${num(border.left)}
+texture_margin_top = ${num(border.top)}
+texture_margin_right = ${num(border.right)}
+texture_margin_bottom = ${num(border.bottom)}
+region_rect = Rect2(${ef.x}, ${ef.y}, ${ef.w}, ${ef.h})
+`;
+};
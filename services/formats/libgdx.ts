@@ -0,0 +1,53 @@
+import { AppSettings, ExportFrame, ExportPage } from '../../types';
+import { getAnimations, getTrimInfo } from './common';
+
+// Split "walk_003.png" into region name "walk" and index 3.
+// Frames without a numeric suffix get libGDX's "no index" value of -1.
+export const parseRegionName = (filename: string) => {
+  const base = filename.replace(/\.[^.]+$/, '');
+  const match = /^(.*?)[_-]?(\d+)$/.exec(base);
+  if (!match || match[1] === '') return { name: base, index: -1 };
+  return { name: match[1], index: parseInt(match[2], 10) };
+};
+
+// libGDX TextureAtlas text format (1.9.13+ bounds/offsets syntax)
+export const buildLibgdxAtlas = (
+  frames: ExportFrame[],
+  pages: ExportPage[],
+  settings: AppSettings['export']
+) => {
+  const lines: string[] = [];
+
+  // Grouped rows become their own region names, indexed within the row
+  const regionNames = frames.map(ef => parseRegionName(ef.filename));
+  if (settings.animationPerRow) {
+    for (const anim of getAnimations(frames, settings)) {
+      anim.indices.forEach((i, index) => { regionNames[i] = { name: anim.name, index }; });
+    }
+  }
+
+  pages.forEach((page, p) => {
+    const regions = frames.filter(ef => ef.page === p);
+    if (regions.length === 0) return;
+
+    lines.push('');
+    lines.push(page.filename);
+    lines.push(`size:${page.width},${page.height}`);
+    lines.push('format:RGBA8888');
+    lines.push('filter:Nearest,Nearest');
+    lines.push('repeat:none');
+
+    for (const ef of regions) {
+      const { name, index } = regionNames[frames.indexOf(ef)];
+      const { offX, offY, ow, oh } = getTrimInfo(ef);
+      lines.push(name);
+      lines.push(`bounds:${ef.x},${ef.y},${ef.w},${ef.h}`);
+      // libGDX measures the trim offset from the bottom-left of the original frame
+      lines.push(`offsets:${offX},${oh - offY - ef.h},${ow},${oh}`);
+      lines.push('rotate:false');
+      lines.push(`index:${index}`);
+    }
+  });
+
+  return lines.join('\n') + '\n';
+};
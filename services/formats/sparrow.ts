@@ -0,0 +1,24 @@
+import { ExportFrame, ExportPage, Pivot } from '../../types';
+import { escapeXml, getTrimInfo } from './common';
+
+// Sparrow / Starling TextureAtlas XML for a single atlas page.
+// Trimmed frames carry frameX/frameY as the negated trim offset.
+// Starling reads pivotX/pivotY in pixels of the untrimmed frame.
+export const buildSparrowXml = (frames: ExportFrame[], page: ExportPage, defaultPivot: Pivot) => {
+  const subTextures = frames.map(ef => {
+    const { offX, offY, ow, oh, trimmed } = getTrimInfo(ef);
+    const name = ef.filename.replace(/\.png$/i, '');
+    const frame = trimmed
+      ? ` frameX="${-offX}" frameY="${-offY}" frameWidth="${ow}" frameHeight="${oh}"`
+      : '';
+    const pivot = ef.frame.pivot ?? defaultPivot;
+    const pivotAttrs = ` pivotX="${+(pivot.x * ow).toFixed(2)}" pivotY="${+(pivot.y * oh).toFixed(2)}"`;
+    return `  <SubTexture name="${escapeXml(name)}" x="${ef.x}" y="${ef.y}" width="${ef.w}" height="${ef.h}"${frame}${pivotAttrs}/>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<TextureAtlas imagePath="${escapeXml(page.filename)}">
+${subTextures.join('\n')}
+</TextureAtlas>
+`;
+};
@@ -0,0 +1,65 @@
+import { AnimationTag, AppSettings, ExportFrame, ExportPage } from '../../types';
+import { getAnimations, getFrameBorder, getPagesMeta, getTrimInfo } from './common';
+import { frameDuration } from '../animations';
+import { toExportBox } from '../hitboxes';
+import { collisionPolygons } from '../polygon';
+
+// SpriteSlice's own TexturePacker-like metadata
+export const buildSpriteSliceJson = (
+  frames: ExportFrame[],
+  pages: ExportPage[],
+  image: HTMLImageElement | null,
+  settings: AppSettings['export'],
+  tags: AnimationTag[] = []
+) => {
+  const isAtlas = settings.layout === 'atlas';
+  return {
+    meta: {
+      app: "SpriteSlice",
+      version: "1.0",
+      image: isAtlas ? pages[0]?.filename : "spritesheet.png",
+      format: "RGBA8888",
+      size: isAtlas ? { w: pages[0]?.width, h: pages[0]?.height } : { w: image?.width, h: image?.height },
+      scale: "1",
+      ...getPagesMeta(pages, isAtlas),
+      animations: Object.fromEntries(
+        getAnimations(frames, settings, tags).map(anim => [anim.name, {
+          frames: anim.indices.map(i => frames[i].filename),
+          direction: anim.direction,
+          loop: anim.loop,
+          fps: anim.fps
+        }])
+      )
+    },
+    frames: frames.map(ef => {
+      const { offX, offY, ow, oh, trimmed } = getTrimInfo(ef);
+      const vertices = collisionPolygons(ef.frame, settings.polygon);
+      const border = getFrameBorder(ef);
+      return {
+        filename: ef.filename,
+        frame: { x: ef.x, y: ef.y, w: ef.w, h: ef.h },
+        ...(isAtlas && pages.length > 1 ? { page: ef.page } : {}),
+        rotated: false,
+        trimmed,
+        spriteSourceSize: { x: offX, y: offY, w: ef.w, h: ef.h },
+        sourceSize: { w: ow, h: oh },
+        duration: Math.round(frameDuration(ef.frame, settings.fps)),
+        pivot: ef.frame.pivot ?? settings.pivot,
+        ...(ef.frame.boxes?.length ? { boxes: ef.frame.boxes.map(toExportBox) } : {}),
+        ...(vertices.length ? { vertices } : {}),
+        // Insets of the untrimmed frame, and the stretchable centre as TexturePacker writes it
+        ...(border ? {
+          border,
+          scale9Borders: {
+            x: border.left,
+            y: border.top,
+            w: ow - border.left - border.right,
+            h: oh - border.top - border.bottom
+          }
+        } : {}),
+        ...(ef.duplicateOf ? { duplicateOf: ef.duplicateOf } : {}),
+        sheetRect: ef.frame.rect
+      };
+    })
+  };
+};
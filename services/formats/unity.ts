@@ -0,0 +1,113 @@
+import { ExportFrame, Pivot } from '../../types';
+import { getFrameBorder } from './common';
+
+// Hex id derived from text (FNV-1a, one differently seeded pass per 4 bytes),
+// so re-exports keep the guid and spriteIDs that scenes and prefabs reference
+const stableHex = (text: string, bytes: number) => {
+  let hex = '';
+  for (let round = 0; hex.length < bytes * 2; round++) {
+    let h = 0x811c9dc5 ^ Math.imul(round + 1, 0x9e3779b9);
+    for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0x5bd1e995);
+    h ^= h >>> 15;
+    hex += (h >>> 0).toString(16).padStart(8, '0');
+  }
+  return hex.slice(0, bytes * 2);
+};
+
+// Unity's legacy fileID range for sub-sprites of a texture
+const spriteInternalId = (index: number) => 21300000 + index * 2;
+
+const spriteName = (ef: ExportFrame) => ef.filename.replace(/\.png$/i, '');
+
+// Unity TextureImporter .meta for the original sheet in Multiple sprite mode.
+// Unity rects use a bottom-left origin, so Y is flipped against the sheet height.
+// Pivots flip the same way; anything but the centre uses custom alignment (9).
+// Sprite borders are left, bottom, right, top.
+export const buildUnityMeta = (frames: ExportFrame[], sheetHeight: number, defaultPivot: Pivot, prefix: string) => {
+  const sprites = frames.map((ef, i) => {
+    const r = ef.frame.rect;
+    const pivot = ef.frame.pivot ?? defaultPivot;
+    const isCenter = pivot.x === 0.5 && pivot.y === 0.5;
+    const b = getFrameBorder(ef) ?? { left: 0, top: 0, right: 0, bottom: 0 };
+    return `    - serializedVersion: 2
+      name: ${spriteName(ef)}
+      rect:
+        serializedVersion: 2
+        x: ${r.x}
+        y: ${sheetHeight - r.y - r.h}
+        width: ${r.w}
+        height: ${r.h}
+      alignment: ${isCenter ? 0 : 9}
+      pivot: {x: ${+pivot.x.toFixed(4)}, y: ${+(1 - pivot.y).toFixed(4)}}
+      border: {x: ${b.left}, y: ${b.bottom}, z: ${b.right}, w: ${b.top}}
+      outline: []
+      physicsShape: []
+      tessellationDetail: 0
+      bones: []
+      spriteID: ${stableHex(`${prefix}/${spriteName(ef)}`, 16)}
+      internalID: ${spriteInternalId(i)}
+      vertices: []
+      indices: 
+      edges: []
+      weights: []`;
+  });
+
+  const nameTable = frames.map((ef, i) => `      ${spriteName(ef)}: ${spriteInternalId(i)}`);
+
+  return `fileFormatVersion: 2
+guid: ${stableHex(`${prefix}/spritesheet.png`, 16)}
+TextureImporter:
+  internalIDToNameTable: []
+  externalObjects: {}
+  serializedVersion: 12
+  mipmaps:
+    mipMapMode: 0
+    enableMipMap: 0
+  isReadable: 0
+  textureFormat: 1
+  maxTextureSize: 2048
+  textureSettings:
+    serializedVersion: 2
+    filterMode: 0
+    aniso: 1
+    mipBias: 0
+    wrapU: 1
+    wrapV: 1
+    wrapW: 1
+  nPOTScale: 0
+  alphaUsage: 1
+  alphaIsTransparency: 1
+  spriteMode: 2
+  spriteExtrude: 1
+  spriteMeshType: 1
+  alignment: 0
+  spritePivot: {x: 0.5, y: 0.5}
+  spritePixelsToUnits: 100
+  spriteBorder: {x: 0, y: 0, z: 0, w: 0}
+  textureType: 8
+  textureShape: 1
+  spriteSheet:
+    serializedVersion: 2
+    sprites:
+${sprites.join('\n')}
+    outline: []
+    physicsShape: []
+    bones: []
+    spriteID: 
+    internalID: 0
+    vertices: []
+    indices: 
+    edges: []
+    weights: []
+    secondaryTextures: []
+    nameFileIdTable:
+${nameTable.join('\n')}
+  spritePackingTag: 
+  pSDRemoveMatte: 0
+  userData: 
+  assetBundleName: 
+  assetBundleVariant: 
+`;
+};
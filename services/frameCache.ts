@@ -0,0 +1,93 @@
+import { AppSettings, ExtractedFrame, FrameData, Rect } from '../types';
+
+interface CacheEntry {
+  frame: ExtractedFrame | null; // null: the rect had no visible pixels
+  url: string | null;
+}
+
+// FNV-1a, enough to tell settings apart in a cache key
+const hashString = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16);
+};
+
+// Hash of the settings that change extracted frames: processing settings
+// for the pixels, plus whether outlines are traced for collision polygons.
+// Color key values are ignored while keying is off.
+export const processingHash = (processing: AppSettings['processing'], traceOutlines: boolean) => {
+  const relevant = processing.colorKeyEnabled
+    ? processing
+    : { autoTrim: processing.autoTrim, colorKeyEnabled: false };
+  return hashString(JSON.stringify({ ...relevant, traceOutlines }));
+};
+
+const rectKey = (rect: Rect, hash: string) => `${rect.x},${rect.y},${rect.w},${rect.h}:${hash}`;
+
+// Extracted frames keyed by rect geometry and processing hash, so regeneration
+// only re-extracts new or changed rects. Owns the object URLs it hands out.
+export class FrameCache {
+  private image: HTMLImageElement | null = null;
+  private entries = new Map<string, CacheEntry>();
+
+  // Cached pixels belong to one sheet; a new image invalidates everything
+  setImage(image: HTMLImageElement) {
+    if (image === this.image) return;
+    this.clear();
+    this.image = image;
+  }
+
+  // Rects that still need extracting, one per distinct geometry
+  missing(rects: Rect[], hash: string) {
+    const seen = new Set<string>();
+    return rects.filter(r => {
+      const key = rectKey(r, hash);
+      if (this.entries.has(key) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  store(rects: Rect[], frames: (ExtractedFrame | null)[], hash: string) {
+    rects.forEach((rect, i) => {
+      const key = rectKey(rect, hash);
+      const frame = frames[i];
+      this.release(key);
+      this.entries.set(key, { frame, url: frame ? URL.createObjectURL(frame.blob) : null });
+    });
+  }
+
+  // Frames for rects in order, skipping empty ones. Entries not used by this
+  // set of rects are dropped and their URLs revoked.
+  collect(rects: Rect[], hash: string): FrameData[] {
+    const used = new Set<string>();
+    const frames: FrameData[] = [];
+    for (const rect of rects) {
+      const key = rectKey(rect, hash);
+      const entry = this.entries.get(key);
+      if (!entry) continue;
+      used.add(key);
+      if (!entry.frame || !entry.url) continue;
+      // Same pixels, but id and name follow the rect currently at this spot
+      frames.push({ ...entry.frame, id: rect.id, rect, url: entry.url });
+    }
+
+    for (const key of Array.from(this.entries.keys())) {
+      if (!used.has(key)) this.release(key);
+    }
+    return frames;
+  }
+
+  clear() {
+    for (const key of Array.from(this.entries.keys())) this.release(key);
+  }
+
+  private release(key: string) {
+    const entry = this.entries.get(key);
+    if (entry?.url) URL.revokeObjectURL(entry.url);
+    this.entries.delete(key);
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { encodeGif } from './gif';
+
+// Deterministic noise, so failures reproduce
+const random = (seed: number) => () => {
+  seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+  return seed / 2 ** 32;
+};
+
+const decodeLzw = (bytes: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let dict: number[][] = [];
+  const reset = () => {
+    dict = Array.from({ length: eoiCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+
+  let bit = 0;
+  const read = () => {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) {
+      if (bit >> 3 >= bytes.length) throw new Error('Ran out of LZW data before the end code');
+      code |= ((bytes[bit >> 3] >> (bit & 7)) & 1) << i;
+    }
+    return code;
+  };
+
+  const out: number[] = [];
+  let prev: number[] | null = null;
+  for (;;) {
+    const code = read();
+    if (code === clearCode) {
+      reset();
+      prev = null;
+      continue;
+    }
+    if (code === eoiCode) break;
+    let entry: number[];
+    if (prev === null) {
+      entry = dict[code];
+    } else {
+      entry = code < dict.length ? dict[code] : [...prev, prev[0]];
+      dict.push([...prev, entry[0]]);
+    }
+    if (!entry) throw new Error(`Invalid LZW code ${code}`);
+    out.push(...entry);
+    if (dict.length === 1 << codeSize && codeSize < 12) codeSize++;
+    prev = entry;
+  }
+  return out;
+};
+
+// Minimal GIF reader: the NETSCAPE loop count and each frame's palette indices
+const readGif = async (blob: Blob) => {
+  const data = new Uint8Array(await blob.arrayBuffer());
+  const width = data[6] | (data[7] << 8);
+  const height = data[8] | (data[9] << 8);
+  const palette = data.subarray(13, 13 + 256 * 3);
+  let p = 13 + 256 * 3;
+  const subBlocks = () => {
+    const chunks: number[] = [];
+    while (data[p] !== 0) {
+      chunks.push(...data.subarray(p + 1, p + 1 + data[p]));
+      p += data[p] + 1;
+    }
+    p++;
+    return new Uint8Array(chunks);
+  };
+
+  let loops: number | null = null;
+  const frames: number[][] = [];
+  while (data[p] !== 0x3b) {
+    if (data[p] === 0x21) {
+      const label = data[p + 1];
+      p += 2;
+      const body = subBlocks();
+      if (label === 0xff && String.fromCharCode(...body.subarray(0, 11)) === 'NETSCAPE2.0') {
+        loops = body[12] | (body[13] << 8);
+      }
+    } else if (data[p] === 0x2c) {
+      p += 10;
+      const minCodeSize = data[p++];
+      frames.push(decodeLzw(subBlocks(), minCodeSize));
+    } else {
+      throw new Error(`Unexpected block 0x${data[p].toString(16)}`);
+    }
+  }
+  return { width, height, palette, loops, frames };
+};
+
+const noiseFrame = (width: number, height: number, colors: number, seed: number) => {
+  const next = random(seed);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const c = Math.floor(next() * colors);
+    data.set([c, 255 - c, (c * 7) & 255, 255], i * 4);
+  }
+  return data;
+};
+
+describe('encodeGif', () => {
+  it('round-trips pixels through LZW, across code size changes and clear codes', async () => {
+    // Sizes around each code width switch, and one long enough to need clear codes
+    for (const [width, height] of [[1, 1], [3, 2], [13, 19], [30, 17], [64, 64], [160, 120]]) {
+      for (const colors of [2, 200]) {
+        const pixels = noiseFrame(width, height, colors, width * 31 + colors);
+        const gif = await readGif(encodeGif([{ data: pixels, delayMs: 100 }], width, height));
+        expect(gif.frames).toHaveLength(1);
+        const indices = gif.frames[0];
+        expect(indices).toHaveLength(width * height);
+        indices.forEach((index, i) => {
+          expect(Array.from(gif.palette.subarray(index * 3, index * 3 + 3))).toEqual(Array.from(pixels.subarray(i * 4, i * 4 + 3)));
+        });
+      }
+    }
+  });
+
+  it('grows the code size for the end code when the table just filled up', async () => {
+    // This noise ends on a full code table after a clear code, with the end
+    // code landing on a byte boundary: one bit short if written too narrow
+    const width = 29936;
+    const pixels = noiseFrame(width, 1, 200, 5);
+    const gif = await readGif(encodeGif([{ data: pixels, delayMs: 100 }], width, 1));
+    expect(gif.frames[0]).toHaveLength(width);
+  });
+
+  it('writes the loop count as repeats after the first play', async () => {
+    const frame = { data: noiseFrame(2, 2, 2, 1), delayMs: 100 };
+    expect((await readGif(encodeGif([frame], 2, 2, 0))).loops).toBe(0);
+    expect((await readGif(encodeGif([frame], 2, 2, 1))).loops).toBeNull();
+    expect((await readGif(encodeGif([frame], 2, 2, 3))).loops).toBe(2);
+  });
+});
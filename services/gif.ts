@@ -0,0 +1,271 @@
+import { FrameData } from '../types';
+
+export interface GifFrame {
+  data: Uint8ClampedArray; // RGBA
+  delayMs: number;
+}
+
+type Color = [number, number, number];
+
+const TRANSPARENT_INDEX = 255;
+const MAX_COLORS = 255; // One palette slot is reserved for transparency
+const ALPHA_CUTOFF = 128;
+
+// Build a palette of at most 255 colors. Sheets with few colors (pixel art)
+// get an exact palette; anything else goes through median cut.
+const buildPalette = (frames: GifFrame[]): Color[] => {
+  const exact = new Map<number, Color>();
+  const buckets = new Map<number, { r: number; g: number; b: number; count: number }>();
+
+  for (const f of frames) {
+    const d = f.data;
+    for (let i = 0; i < d.length; i += 4) {
+      if (d[i + 3] < ALPHA_CUTOFF) continue;
+      const r = d[i], g = d[i + 1], b = d[i + 2];
+      if (exact.size <= MAX_COLORS) {
+        const key = (r << 16) | (g << 8) | b;
+        if (!exact.has(key)) exact.set(key, [r, g, b]);
+      }
+      const bk = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+      const bucket = buckets.get(bk);
+      if (bucket) {
+        bucket.r += r; bucket.g += g; bucket.b += b; bucket.count++;
+      } else {
+        buckets.set(bk, { r, g, b, count: 1 });
+      }
+    }
+  }
+
+  if (exact.size <= MAX_COLORS) return Array.from(exact.values());
+
+  // Median cut over the 15-bit color buckets
+  const entries = Array.from(buckets.values()).map(b => ({
+    color: [b.r / b.count, b.g / b.count, b.b / b.count] as Color,
+    count: b.count
+  }));
+  let boxes = [entries];
+
+  while (boxes.length < MAX_COLORS) {
+    let bestIdx = -1, bestScore = 0, bestAxis = 0;
+    boxes.forEach((box, idx) => {
+      if (box.length < 2) return;
+      const count = box.reduce((s, e) => s + e.count, 0);
+      for (let axis = 0; axis < 3; axis++) {
+        let min = 255, max = 0;
+        for (const e of box) {
+          if (e.color[axis] < min) min = e.color[axis];
+          if (e.color[axis] > max) max = e.color[axis];
+        }
+        const score = (max - min) * Math.sqrt(count);
+        if (score > bestScore) {
+          bestScore = score;
+          bestIdx = idx;
+          bestAxis = axis;
+        }
+      }
+    });
+    if (bestIdx === -1) break;
+
+    const box = boxes[bestIdx].sort((a, b) => a.color[bestAxis] - b.color[bestAxis]);
+    const total = box.reduce((s, e) => s + e.count, 0);
+    let acc = 0, split = 1;
+    for (let i = 0; i < box.length - 1; i++) {
+      acc += box[i].count;
+      if (acc >= total / 2) { split = i + 1; break; }
+    }
+    boxes = [...boxes.slice(0, bestIdx), box.slice(0, split), box.slice(split), ...boxes.slice(bestIdx + 1)];
+  }
+
+  return boxes.map(box => {
+    let r = 0, g = 0, b = 0, n = 0;
+    for (const e of box) {
+      r += e.color[0] * e.count; g += e.color[1] * e.count; b += e.color[2] * e.count; n += e.count;
+    }
+    return [Math.round(r / n), Math.round(g / n), Math.round(b / n)] as Color;
+  });
+};
+
+const createIndexer = (palette: Color[]) => {
+  const cache = new Map<number, number>();
+  return (r: number, g: number, b: number) => {
+    const key = (r << 16) | (g << 8) | b;
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+    let best = 0, bestDist = Infinity;
+    for (let i = 0; i < palette.length; i++) {
+      const [pr, pg, pb] = palette[i];
+      const dist = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+      if (dist < bestDist) { bestDist = dist; best = i; }
+    }
+    cache.set(key, best);
+    return best;
+  };
+};
+
+class ByteWriter {
+  bytes: number[] = [];
+  byte(v: number) { this.bytes.push(v & 0xff); }
+  u16(v: number) { this.byte(v); this.byte(v >> 8); }
+  str(s: string) { for (let i = 0; i < s.length; i++) this.byte(s.charCodeAt(i)); }
+  array(a: ArrayLike<number>) { for (let i = 0; i < a.length; i++) this.byte(a[i]); }
+}
+
+// GIF flavoured LZW, written straight into 255-byte data sub-blocks
+const writeLzw = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = eoiCode + 1;
+  let table = new Map<number, number>();
+
+  const block: number[] = [];
+  let bitBuf = 0, bitCount = 0;
+  const flushBlock = () => {
+    out.byte(block.length);
+    out.array(block);
+    block.length = 0;
+  };
+  const emit = (code: number) => {
+    bitBuf |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuf & 0xff);
+      if (block.length === 255) flushBlock();
+      bitBuf >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = eoiCode + 1;
+    } else {
+      if (nextCode >= (1 << codeSize)) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  // The decoder grows its code size on the entry it would add after this code
+  if (nextCode >= (1 << codeSize)) codeSize++;
+  emit(eoiCode);
+  if (bitCount > 0) {
+    block.push(bitBuf & 0xff);
+    if (block.length === 255) flushBlock();
+  }
+  if (block.length > 0) flushBlock();
+  out.byte(0); // Block terminator
+};
+
+// Encode RGBA frames of identical size into an animated GIF.
+// loopCount is the total number of plays, 0 loops forever.
+export const encodeGif = (
+  frames: GifFrame[],
+  width: number,
+  height: number,
+  loopCount: number = 0
+): Blob => {
+  const palette = buildPalette(frames);
+  const indexOf = createIndexer(palette);
+  const out = new ByteWriter();
+
+  // Header + Logical Screen Descriptor with a 256-entry global color table
+  out.str('GIF89a');
+  out.u16(width);
+  out.u16(height);
+  out.byte(0xf7);
+  out.byte(TRANSPARENT_INDEX);
+  out.byte(0);
+  for (let i = 0; i < 256; i++) {
+    const c = palette[i] ?? [0, 0, 0];
+    out.byte(c[0]); out.byte(c[1]); out.byte(c[2]);
+  }
+
+  // NETSCAPE2.0 looping extension. Its count is repeats after the first play,
+  // so a single play leaves the extension out altogether.
+  if (loopCount !== 1) {
+    out.byte(0x21); out.byte(0xff); out.byte(0x0b);
+    out.str('NETSCAPE2.0');
+    out.byte(0x03); out.byte(0x01);
+    out.u16(Math.max(0, loopCount - 1));
+    out.byte(0);
+  }
+
+  const indices = new Uint8Array(width * height);
+  for (const f of frames) {
+    const d = f.data;
+    for (let p = 0; p < indices.length; p++) {
+      const i = p * 4;
+      indices[p] = d[i + 3] < ALPHA_CUTOFF ? TRANSPARENT_INDEX : indexOf(d[i], d[i + 1], d[i + 2]);
+    }
+
+    // Graphic Control Extension: restore to background, transparent index set
+    out.byte(0x21); out.byte(0xf9); out.byte(0x04);
+    out.byte((2 << 2) | 1);
+    out.u16(Math.max(2, Math.round(f.delayMs / 10)));
+    out.byte(TRANSPARENT_INDEX);
+    out.byte(0);
+
+    // Image Descriptor covering the whole canvas
+    out.byte(0x2c);
+    out.u16(0); out.u16(0);
+    out.u16(width); out.u16(height);
+    out.byte(0);
+
+    writeLzw(out, indices, 8);
+  }
+
+  out.byte(0x3b);
+  return new Blob([new Uint8Array(out.bytes)], { type: 'image/gif' });
+};
+
+// Composite frames back onto their original (untrimmed) canvas, scaled with
+// nearest-neighbour so every GIF frame shares the same size and origin.
+export const renderPaddedFrames = async (frames: FrameData[], zoom: number) => {
+  const baseW = Math.max(...frames.map(f => f.originalSize?.w ?? f.rect.w));
+  const baseH = Math.max(...frames.map(f => f.originalSize?.h ?? f.rect.h));
+  const width = Math.max(1, Math.round(baseW * zoom));
+  const height = Math.max(1, Math.round(baseH * zoom));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not create GIF canvas');
+  ctx.imageSmoothingEnabled = false;
+
+  const images: Uint8ClampedArray[] = [];
+  for (const f of frames) {
+    const bitmap = await createImageBitmap(f.blob);
+    const ox = f.trimOffset?.x ?? 0;
+    const oy = f.trimOffset?.y ?? 0;
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(bitmap, ox * zoom, oy * zoom, bitmap.width * zoom, bitmap.height * zoom);
+    bitmap.close();
+    images.push(ctx.getImageData(0, 0, width, height).data);
+  }
+  return { images, width, height };
+};
+
+export const exportGif = async (
+  frames: FrameData[],
+  options: { delaysMs: number[]; zoom: number; loopCount: number }
+) => {
+  const { images, width, height } = await renderPaddedFrames(frames, options.zoom);
+  return encodeGif(images.map((data, i) => ({ data, delayMs: options.delaysMs[i] })), width, height, options.loopCount);
+};
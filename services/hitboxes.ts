@@ -0,0 +1,20 @@
+import { CollisionBox, CollisionBoxType } from '../types';
+
+export const BOX_TYPES: CollisionBoxType[] = ['hitbox', 'hurtbox', 'pushbox'];
+
+export const BOX_COLORS: Record<CollisionBoxType, string> = {
+  hitbox: '#ef4444',
+  hurtbox: '#22c55e',
+  pushbox: '#3b82f6'
+};
+
+// Next free name for a box type within one frame, e.g. "hurtbox2"
+export const nextBoxName = (boxes: CollisionBox[], type: CollisionBoxType) => {
+  const used = new Set(boxes.map(b => b.name));
+  let n = 1;
+  while (used.has(`${type}${n}`)) n++;
+  return `${type}${n}`;
+};
+
+// Box as written to metadata, without the editor id
+export const toExportBox = ({ name, type, x, y, w, h }: CollisionBox) => ({ name, type, x, y, w, h });
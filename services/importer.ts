@@ -0,0 +1,73 @@
+import { Rect } from '../types';
+
+type JsonRect = { x: number; y: number; w: number; h: number };
+
+interface JsonFrame {
+  filename?: string;
+  frame?: JsonRect;
+  rotated?: boolean;
+  sheetRect?: JsonRect;
+}
+
+const isRect = (r: unknown): r is JsonRect =>
+  !!r && typeof r === 'object' &&
+  ['x', 'y', 'w', 'h'].every(k => typeof (r as Record<string, unknown>)[k] === 'number');
+
+const stripExtension = (name: string) => name.replace(/\.(png|gif|jpe?g|webp|bmp|aseprite|ase)$/i, '');
+
+// Turn atlas metadata back into manual rects, in file order.
+// Accepts SpriteSlice data.json, TexturePacker JSON (hash or array) and Aseprite JSON.
+// SpriteSlice files restore the rects on the original sheet via `sheetRect`;
+// the other formats describe regions on the packed sheet they were exported with,
+// so per-frame exports (no `meta.image`, every frame at 0,0) are rejected.
+export const parseAtlasMetadata = (text: string): Rect[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('Metadata file is not valid JSON');
+  }
+  if (!json || typeof json !== 'object' || !('frames' in json)) {
+    throw new Error('Metadata has no "frames" entry');
+  }
+
+  const { frames, meta } = json as { frames: unknown; meta?: { app?: string; image?: unknown } };
+  const isSpriteSlice = meta?.app === 'SpriteSlice';
+  const hasSheet = typeof meta?.image === 'string' && meta.image !== '';
+
+  // Array layout carries the name in `filename`, hash layout uses the key
+  let entries: [string, JsonFrame][];
+  if (Array.isArray(frames)) {
+    entries = frames.map((f: JsonFrame, i) => [f?.filename ?? `frame_${i}`, f]);
+  } else if (frames && typeof frames === 'object') {
+    entries = Object.entries(frames as Record<string, JsonFrame>);
+  } else {
+    throw new Error('Unrecognised "frames" layout');
+  }
+
+  const stamp = Date.now();
+  const rects: Rect[] = [];
+  entries.forEach(([name, f], i) => {
+    let r: JsonRect | undefined;
+    if (isSpriteSlice && isRect(f?.sheetRect)) {
+      r = f.sheetRect;
+    } else if (isRect(f?.frame)) {
+      if (!hasSheet) throw new Error('Metadata was exported as separate frame images; import needs a packed sheet');
+      // Rotated regions are stored 90° turned on the sheet, so width and height swap
+      r = f.rotated ? { x: f.frame.x, y: f.frame.y, w: f.frame.h, h: f.frame.w } : f.frame;
+    }
+    if (!r || r.w <= 0 || r.h <= 0) return;
+
+    rects.push({
+      id: `manual-${stamp}-${i}`,
+      x: r.x,
+      y: r.y,
+      w: r.w,
+      h: r.h,
+      name: stripExtension(name)
+    });
+  });
+
+  if (rects.length === 0) throw new Error('No frame rects found in metadata');
+  return rects;
+};
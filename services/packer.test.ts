@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { PackInput, PackedPage, packRects } from './packer';
+
+// Deterministic sizes, so failures reproduce
+const inputs = (count: number, maxSide: number): PackInput[] => {
+  let seed = 12345;
+  const next = () => {
+    seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+    return seed / 2 ** 32;
+  };
+  return Array.from({ length: count }, (_, i) => ({
+    id: `r${i}`,
+    w: 1 + Math.floor(next() * maxSide),
+    h: 1 + Math.floor(next() * maxSide)
+  }));
+};
+
+const isPowerOfTwo = (v: number) => v > 0 && (v & (v - 1)) === 0;
+
+const expectValidPacking = (pages: PackedPage[], items: PackInput[], padding: number) => {
+  const placed = pages.flatMap(p => p.rects);
+  expect(placed.map(r => r.id).sort()).toEqual(items.map(r => r.id).sort());
+
+  pages.forEach((page, p) => {
+    page.rects.forEach((r, i) => {
+      expect(r.page).toBe(p);
+      expect(r.x).toBeGreaterThanOrEqual(padding);
+      expect(r.y).toBeGreaterThanOrEqual(padding);
+      expect(r.x + r.w + padding).toBeLessThanOrEqual(page.width);
+      expect(r.y + r.h + padding).toBeLessThanOrEqual(page.height);
+      // Padding apart from every other rect on the page
+      page.rects.slice(i + 1).forEach(o => {
+        const apart =
+          r.x + r.w + padding <= o.x || o.x + o.w + padding <= r.x ||
+          r.y + r.h + padding <= o.y || o.y + o.h + padding <= r.y;
+        expect(apart, `${r.id} overlaps ${o.id}`).toBe(true);
+      });
+    });
+  });
+};
+
+describe('packRects', () => {
+  it('places every rect without overlaps and within the max size', () => {
+    const items = inputs(120, 60);
+    const pages = packRects(items, { maxSize: 256, padding: 2, powerOfTwo: false });
+    expect(pages.length).toBeGreaterThan(1);
+    expectValidPacking(pages, items, 2);
+    pages.forEach(page => {
+      expect(page.width).toBeLessThanOrEqual(256);
+      expect(page.height).toBeLessThanOrEqual(256);
+    });
+  });
+
+  it('keeps power-of-two pages within a max size that is not a power of two', () => {
+    const items = inputs(120, 60);
+    const pages = packRects(items, { maxSize: 300, padding: 1, powerOfTwo: true });
+    expectValidPacking(pages, items, 1);
+    pages.forEach(page => {
+      expect(isPowerOfTwo(page.width) && isPowerOfTwo(page.height)).toBe(true);
+      expect(page.width).toBeLessThanOrEqual(300);
+      expect(page.height).toBeLessThanOrEqual(300);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { AppSettings } from '../types';
+
+export interface PackInput {
+  id: string;
+  w: number;
+  h: number;
+}
+
+export interface PackedRect {
+  id: string;
+  page: number;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface PackedPage {
+  width: number;
+  height: number;
+  rects: PackedRect[];
+}
+
+type FreeRect = { x: number; y: number; w: number; h: number };
+
+const nextPowerOfTwo = (v: number) => {
+  let p = 1;
+  while (p < v) p *= 2;
+  return p;
+};
+
+const prevPowerOfTwo = (v: number) => {
+  let p = 1;
+  while (p * 2 <= v) p *= 2;
+  return p;
+};
+
+const contains = (a: FreeRect, b: FreeRect) =>
+  b.x >= a.x && b.y >= a.y && b.x + b.w <= a.x + a.w && b.y + b.h <= a.y + a.h;
+
+// Single MaxRects bin (Best Short Side Fit heuristic)
+class MaxRectsBin {
+  free: FreeRect[];
+  used: FreeRect[] = [];
+
+  constructor(size: number, padding: number) {
+    // The bin border gets the same padding as the gap between sprites
+    this.free = [{ x: padding, y: padding, w: size - padding, h: size - padding }];
+  }
+
+  findPosition(w: number, h: number) {
+    let best: FreeRect | null = null;
+    let bestShort = Infinity;
+    let bestLong = Infinity;
+
+    for (const f of this.free) {
+      if (w > f.w || h > f.h) continue;
+      const leftoverW = f.w - w;
+      const leftoverH = f.h - h;
+      const short = Math.min(leftoverW, leftoverH);
+      const long = Math.max(leftoverW, leftoverH);
+      if (short < bestShort || (short === bestShort && long < bestLong)) {
+        best = { x: f.x, y: f.y, w, h };
+        bestShort = short;
+        bestLong = long;
+      }
+    }
+    return best;
+  }
+
+  place(node: FreeRect) {
+    const next: FreeRect[] = [];
+    for (const f of this.free) {
+      const intersects = !(node.x >= f.x + f.w || node.x + node.w <= f.x || node.y >= f.y + f.h || node.y + node.h <= f.y);
+      if (!intersects) {
+        next.push(f);
+        continue;
+      }
+      // Split the free rect into up to 4 maximal rects around the placed node
+      if (node.x > f.x) next.push({ x: f.x, y: f.y, w: node.x - f.x, h: f.h });
+      if (node.x + node.w < f.x + f.w) next.push({ x: node.x + node.w, y: f.y, w: f.x + f.w - (node.x + node.w), h: f.h });
+      if (node.y > f.y) next.push({ x: f.x, y: f.y, w: f.w, h: node.y - f.y });
+      if (node.y + node.h < f.y + f.h) next.push({ x: f.x, y: node.y + node.h, w: f.w, h: f.y + f.h - (node.y + node.h) });
+    }
+
+    // Prune free rects fully contained in another
+    this.free = next.filter((a, i) => !next.some((b, j) => i !== j && contains(b, a) && (!contains(a, b) || j < i)));
+    this.used.push(node);
+  }
+}
+
+// Pack rects into as few pages as possible, each no larger than maxSize.
+// Rects that can't fit in an empty page get a dedicated page of their own size.
+export const packRects = (
+  inputs: PackInput[],
+  options: AppSettings['export']['atlas']
+): PackedPage[] => {
+  const padding = Math.max(0, options.padding);
+  // Pages round up to a power of two, so pack within the largest one that fits
+  const maxSize = options.powerOfTwo
+    ? prevPowerOfTwo(Math.max(1, options.maxSize))
+    : Math.max(1, options.maxSize);
+
+  // Larger items first gives a much tighter packing
+  const sorted = [...inputs].sort((a, b) => Math.max(b.w, b.h) - Math.max(a.w, a.h) || b.w * b.h - a.w * a.h);
+
+  const bins: MaxRectsBin[] = [];
+  const pages: PackedPage[] = [];
+
+  for (const input of sorted) {
+    const w = input.w + padding;
+    const h = input.h + padding;
+
+    let placed = false;
+    for (let p = 0; p < bins.length; p++) {
+      const node = bins[p].findPosition(w, h);
+      if (node) {
+        bins[p].place(node);
+        pages[p].rects.push({ id: input.id, page: p, x: node.x, y: node.y, w: input.w, h: input.h });
+        placed = true;
+        break;
+      }
+    }
+    if (placed) continue;
+
+    const size = Math.max(maxSize, w + padding, h + padding);
+    const bin = new MaxRectsBin(size, padding);
+    const node = bin.findPosition(w, h);
+    if (!node) continue; // Unreachable: a fresh bin always fits
+    bin.place(node);
+    bins.push(bin);
+    pages.push({
+      width: 0,
+      height: 0,
+      rects: [{ id: input.id, page: pages.length, x: node.x, y: node.y, w: input.w, h: input.h }]
+    });
+  }
+
+  // Shrink each page to its used area
+  for (const page of pages) {
+    let w = 1, h = 1;
+    for (const r of page.rects) {
+      w = Math.max(w, r.x + r.w + padding);
+      h = Math.max(h, r.y + r.h + padding);
+    }
+    page.width = options.powerOfTwo ? nextPowerOfTwo(w) : w;
+    page.height = options.powerOfTwo ? nextPowerOfTwo(h) : h;
+  }
+
+  return pages;
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { collisionPolygons, traceOutline } from './polygon';
+
+// Opaque pixels wherever the row string has '#'
+const mask = (rows: string[]) => {
+  const height = rows.length;
+  const width = rows[0].length;
+  const data = new Uint8ClampedArray(width * height * 4);
+  rows.forEach((row, y) => {
+    [...row].forEach((c, x) => {
+      if (c === '#') data[(y * width + x) * 4 + 3] = 255;
+    });
+  });
+  return { data, width, height } as ImageData;
+};
+
+const bounds = (points: { x: number; y: number }[]) => ({
+  minX: Math.min(...points.map(p => p.x)),
+  minY: Math.min(...points.map(p => p.y)),
+  maxX: Math.max(...points.map(p => p.x)),
+  maxY: Math.max(...points.map(p => p.y))
+});
+
+describe('traceOutline', () => {
+  it('follows a diagonal line through its corner-touching pixels', () => {
+    const outline = traceOutline(mask([
+      '#...',
+      '.#..',
+      '..#.',
+      '...#'
+    ]));
+    expect(bounds(outline)).toEqual({ minX: 0, minY: 0, maxX: 4, maxY: 4 });
+    expect(outline).toEqual([
+      { x: 0, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 1 }, { x: 1, y: 2 },
+      { x: 2, y: 2 }, { x: 2, y: 3 }, { x: 3, y: 3 }, { x: 3, y: 4 },
+      { x: 4, y: 4 }, { x: 4, y: 3 }, { x: 3, y: 3 }, { x: 3, y: 2 },
+      { x: 2, y: 2 }, { x: 2, y: 1 }, { x: 1, y: 1 }, { x: 1, y: 0 }
+    ]);
+  });
+
+  it('joins two blocks that only share a corner', () => {
+    const outline = traceOutline(mask([
+      '##..',
+      '##..',
+      '..##',
+      '..##'
+    ]));
+    expect(outline).toEqual([
+      { x: 0, y: 0 }, { x: 0, y: 2 }, { x: 2, y: 2 }, { x: 2, y: 4 },
+      { x: 4, y: 4 }, { x: 4, y: 2 }, { x: 2, y: 2 }, { x: 2, y: 0 }
+    ]);
+  });
+});
+
+describe('collisionPolygons', () => {
+  it('decomposes a large wobbly outline into a bounded number of convex parts', () => {
+    const size = 128;
+    const rows = Array.from({ length: size }, (_, y) =>
+      Array.from({ length: size }, (_, x) => {
+        const a = Math.atan2(y - 64, x - 64);
+        return Math.hypot(x - 64, y - 64) < 45 + 12 * Math.sin(a * 7) + 5 * Math.sin(a * 23) ? '#' : '.';
+      }).join('')
+    );
+    const outline = traceOutline(mask(rows));
+    expect(outline.length).toBeGreaterThan(200);
+
+    const parts = collisionPolygons(
+      { outline } as Parameters<typeof collisionPolygons>[0],
+      { enabled: true, shape: 'decompose', tolerance: 0, maxVertices: 8 }
+    );
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.length).toBeLessThanOrEqual(16);
+    parts.forEach(part => expect(part.length).toBeLessThanOrEqual(8));
+  });
+});
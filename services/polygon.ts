@@ -0,0 +1,274 @@
+import { AppSettings, FrameData, Point } from '../types';
+
+// Outline of the largest opaque region, as pixel-corner coordinates in the
+// untrimmed frame. Marching squares over alpha > 0; other regions and holes
+// are left out, since physics bodies want one solid shape per sprite.
+export const traceOutline = (imageData: ImageData): Point[] => {
+  const { data, width, height } = imageData;
+  const solid = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && data[(y * width + x) * 4 + 3] > 0;
+
+  // Pick the biggest 8-connected region; its first pixel in scan order is
+  // always a top-left corner where tracing can start
+  const labels = new Int32Array(width * height);
+  const stack: number[] = [];
+  let start = -1;
+  let bestSize = 0;
+  let label = 0;
+  for (let i = 0; i < width * height; i++) {
+    if (labels[i] || data[i * 4 + 3] === 0) continue;
+    label++;
+    let size = 0;
+    labels[i] = label;
+    stack.push(i);
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      size++;
+      const px = p % width;
+      const py = (p - px) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = px + dx;
+          const ny = py + dy;
+          if (!solid(nx, ny)) continue;
+          const n = ny * width + nx;
+          if (labels[n]) continue;
+          labels[n] = label;
+          stack.push(n);
+        }
+      }
+    }
+    if (size > bestSize) {
+      bestSize = size;
+      start = i;
+    }
+  }
+  if (start < 0) return [];
+
+  // Walk the pixel corners, keeping only the corners where the direction turns
+  const sx = start % width;
+  const sy = (start - sx) / width;
+  const points: Point[] = [];
+  let x = sx;
+  let y = sy;
+  let prev = '';
+  do {
+    const state =
+      (solid(x - 1, y - 1) ? 1 : 0) |
+      (solid(x, y - 1) ? 2 : 0) |
+      (solid(x - 1, y) ? 4 : 0) |
+      (solid(x, y) ? 8 : 0);
+    let step: string;
+    switch (state) {
+      case 1: case 5: case 13: step = 'up'; break;
+      case 2: case 3: case 7: step = 'right'; break;
+      case 4: case 12: case 14: step = 'left'; break;
+      case 8: case 10: case 11: step = 'down'; break;
+      // Saddles: diagonal neighbours are connected, as in the region search,
+      // so the walk crosses over to the other pixel instead of turning back
+      case 6: step = prev === 'up' ? 'right' : 'left'; break;
+      case 9: step = prev === 'right' ? 'down' : 'up'; break;
+      default: return points; // Not on an edge; can't happen from a valid start
+    }
+    if (step !== prev) points.push({ x, y });
+    prev = step;
+    if (step === 'up') y--;
+    else if (step === 'down') y++;
+    else if (step === 'left') x--;
+    else x++;
+  } while (x !== sx || y !== sy);
+  return points;
+};
+
+const segmentDistance = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len = dx * dx + dy * dy;
+  const t = len === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len));
+  return Math.hypot(p.x - a.x - t * dx, p.y - a.y - t * dy);
+};
+
+const simplifyPath = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 3) return points;
+  const last = points.length - 1;
+  let index = 0;
+  let maxDist = 0;
+  for (let i = 1; i < last; i++) {
+    const d = segmentDistance(points[i], points[0], points[last]);
+    if (d > maxDist) {
+      maxDist = d;
+      index = i;
+    }
+  }
+  if (maxDist <= tolerance) return [points[0], points[last]];
+  const left = simplifyPath(points.slice(0, index + 1), tolerance);
+  const right = simplifyPath(points.slice(index), tolerance);
+  return [...left.slice(0, -1), ...right];
+};
+
+// Douglas-Peucker on a closed ring, split at the point farthest from the first
+export const simplifyPolygon = (points: Point[], tolerance: number): Point[] => {
+  if (points.length <= 3) return points;
+  let far = 0;
+  let farDist = 0;
+  points.forEach((p, i) => {
+    const d = Math.hypot(p.x - points[0].x, p.y - points[0].y);
+    if (d > farDist) {
+      farDist = d;
+      far = i;
+    }
+  });
+  const a = simplifyPath(points.slice(0, far + 1), tolerance);
+  const b = simplifyPath([...points.slice(far), points[0]], tolerance);
+  const ring = [...a.slice(0, -1), ...b.slice(0, -1)];
+  return ring.length >= 3 ? ring : points.slice(0, 3);
+};
+
+// Simplify with a growing tolerance until the ring fits in maxVertices
+const simplifyToLimit = (points: Point[], tolerance: number, maxVertices: number) => {
+  let t = tolerance;
+  let ring = simplifyPolygon(points, t);
+  while (ring.length > maxVertices && ring.length > 3) {
+    t = Math.max(0.5, t * 1.5);
+    ring = simplifyPolygon(ring, t);
+  }
+  return ring;
+};
+
+const cross = (a: Point, b: Point, c: Point) =>
+  (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+
+// Andrew's monotone chain
+export const convexHull = (points: Point[]): Point[] => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+  const half = (list: Point[]) => {
+    const out: Point[] = [];
+    for (const p of list) {
+      while (out.length >= 2 && cross(out[out.length - 2], out[out.length - 1], p) <= 0) out.pop();
+      out.push(p);
+    }
+    out.pop();
+    return out;
+  };
+  return [...half(sorted), ...half([...sorted].reverse())];
+};
+
+const signedArea = (points: Point[]) =>
+  points.reduce((sum, p, i) => {
+    const q = points[(i + 1) % points.length];
+    return sum + p.x * q.y - q.x * p.y;
+  }, 0) / 2;
+
+// Wound clockwise on screen, i.e. counter-clockwise once y points up
+const clockwise = (points: Point[]) => signedArea(points) < 0 ? [...points].reverse() : points;
+
+const isConvex = (points: Point[]) =>
+  points.every((p, i) => cross(points[(i + points.length - 1) % points.length], p, points[(i + 1) % points.length]) >= 0);
+
+const inTriangle = (p: Point, a: Point, b: Point, c: Point) =>
+  cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+
+// Convex pieces of a simple polygon: ear-clipping triangulation, then
+// Hertel-Mehlhorn merging across diagonals while the result stays convex
+// and within maxVertices
+export const decomposeConvex = (points: Point[], maxVertices: number): Point[][] => {
+  const ring = clockwise(points);
+  const remaining = ring.map((_, i) => i);
+  const parts: number[][] = [];
+  while (remaining.length > 3) {
+    let clipped = false;
+    for (let i = 0; i < remaining.length; i++) {
+      const ia = remaining[(i + remaining.length - 1) % remaining.length];
+      const ib = remaining[i];
+      const ic = remaining[(i + 1) % remaining.length];
+      const [a, b, c] = [ring[ia], ring[ib], ring[ic]];
+      if (cross(a, b, c) <= 0) continue;
+      // Outlines can touch themselves, so corners repeated elsewhere don't block
+      const blocked = remaining.some(j => {
+        const p = ring[j];
+        if ([a, b, c].some(v => v.x === p.x && v.y === p.y)) return false;
+        return inTriangle(p, a, b, c);
+      });
+      if (blocked) continue;
+      parts.push([ia, ib, ic]);
+      remaining.splice(i, 1);
+      clipped = true;
+      break;
+    }
+    // Self-intersecting input has no ear left; fall back to its hull
+    if (!clipped) return [simplifyToLimit(convexHull(ring), 0, maxVertices)];
+  }
+  parts.push(remaining);
+
+  let merged = true;
+  while (merged) {
+    merged = false;
+    for (let i = 0; i < parts.length && !merged; i++) {
+      for (let j = i + 1; j < parts.length && !merged; j++) {
+        const p = parts[i];
+        const q = parts[j];
+        if (p.length + q.length - 2 > maxVertices) continue;
+        // Find an edge a->b in p that q runs as b->a
+        for (let k = 0; k < p.length; k++) {
+          const a = p[k];
+          const b = p[(k + 1) % p.length];
+          const m = q.findIndex((v, n) => v === b && q[(n + 1) % q.length] === a);
+          if (m < 0) continue;
+          // b..a around p, then q's vertices after a and before b
+          const candidate = [
+            ...p.map((_, n) => p[(k + 1 + n) % p.length]),
+            ...q.slice(2).map((_, n) => q[(m + 2 + n) % q.length])
+          ];
+          if (!isConvex(candidate.map(v => ring[v]))) break;
+          parts[i] = candidate;
+          parts.splice(j, 1);
+          merged = true;
+          break;
+        }
+      }
+    }
+  }
+  return parts.map(part => part.map(v => ring[v]));
+};
+
+// Ear clipping is cubic in the ring size, so decomposition starts from an
+// outline of at most this many points and gives up past this many pieces
+const DECOMPOSE_MAX_POINTS = 64;
+const DECOMPOSE_MAX_PARTS = 16;
+
+// Pieces from a coarser outline each round until they fit the part cap;
+// the last resort is the hull
+const decomposeOutline = (outline: Point[], tolerance: number, maxVertices: number) => {
+  for (let budget = DECOMPOSE_MAX_POINTS; budget >= 8; budget /= 2) {
+    const parts = decomposeConvex(simplifyToLimit(outline, Math.max(1, tolerance), budget), maxVertices);
+    if (parts.length <= DECOMPOSE_MAX_PARTS) return parts;
+  }
+  return [clockwise(simplifyToLimit(convexHull(outline), tolerance, maxVertices))];
+};
+
+// Last result per outline; the canvas and every exporter ask for the same
+// frames with the same settings, and edited frames share their outline array
+const polygonCache = new WeakMap<Point[], { key: string; polygons: Point[][] }>();
+
+// Collision polygons for a frame per the export settings, in untrimmed
+// frame pixels; empty when disabled or the frame has no outline
+export const collisionPolygons = (frame: FrameData, settings: AppSettings['export']['polygon']): Point[][] => {
+  const outline = frame.outline;
+  if (!settings.enabled || !outline || outline.length < 3) return [];
+  const key = `${settings.shape}:${settings.tolerance}:${settings.maxVertices}`;
+  const cached = polygonCache.get(outline);
+  if (cached?.key === key) return cached.polygons;
+
+  const max = Math.max(3, settings.maxVertices);
+  let polygons: Point[][];
+  if (settings.shape === 'convex') {
+    polygons = [clockwise(simplifyToLimit(convexHull(outline), settings.tolerance, max))];
+  } else if (settings.shape === 'decompose') {
+    polygons = decomposeOutline(outline, settings.tolerance, max);
+  } else {
+    polygons = [clockwise(simplifyToLimit(outline, settings.tolerance, max))];
+  }
+  polygonCache.set(outline, { key, polygons });
+  return polygons;
+};
@@ -0,0 +1,53 @@
+import { applyColorKeySettings, detectIslands, extractFrame } from './processor';
+import type { WorkerRequest, WorkerResponse } from './workerPool';
+
+const scope = self as unknown as Worker;
+
+let sheet: ImageBitmap | null = null;
+// Job currently allowed to run; a cancel or a newer job stops older loops between frames
+let activeJob = 0;
+
+const post = (msg: WorkerResponse) => scope.postMessage(msg);
+
+const detect = (jobId: number, settings: Extract<WorkerRequest, { type: 'detect' }>['settings']) => {
+  if (!sheet) throw new Error('No sprite sheet loaded in worker');
+  const canvas = new OffscreenCanvas(sheet.width, sheet.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create worker canvas');
+  ctx.drawImage(sheet, 0, 0);
+  const imageData = ctx.getImageData(0, 0, sheet.width, sheet.height);
+  applyColorKeySettings(imageData, settings.processing);
+  post({ type: 'islands', jobId, rects: detectIslands(imageData, settings.islands) });
+};
+
+const extract = async (jobId: number, msg: Extract<WorkerRequest, { type: 'extract' }>) => {
+  if (!sheet) throw new Error('No sprite sheet loaded in worker');
+  for (const { rect, index } of msg.items) {
+    if (activeJob !== jobId) return;
+    const frame = await extractFrame(sheet, rect, msg.settings);
+    if (activeJob !== jobId) return;
+    post({ type: 'frame', jobId, index, frame });
+  }
+  post({ type: 'done', jobId });
+};
+
+scope.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const msg = e.data;
+  if (msg.type === 'image') {
+    sheet?.close();
+    sheet = msg.bitmap;
+    return;
+  }
+  if (msg.type === 'cancel') {
+    if (activeJob === msg.jobId) activeJob = 0;
+    return;
+  }
+
+  activeJob = msg.jobId;
+  try {
+    if (msg.type === 'detect') detect(msg.jobId, msg.settings);
+    else await extract(msg.jobId, msg);
+  } catch (err) {
+    post({ type: 'error', jobId: msg.jobId, message: err instanceof Error ? err.message : String(err) });
+  }
+};
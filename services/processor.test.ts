@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { calculateGridRects, detectGrid } from './processor';
+
+const sheet = (width: number, height: number, solid: (x: number, y: number) => boolean) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (solid(x, y)) data[(y * width + x) * 4 + 3] = 255;
+    }
+  }
+  return { data, width, height } as ImageData;
+};
+
+describe('detectGrid', () => {
+  it('returns the empty gutter between sprites as spacing', () => {
+    // 4x2 sprites of 12x10, starting at 4,4 with gaps of 8 and 7
+    const image = sheet(82, 37, (x, y) =>
+      x >= 4 && y >= 4 && (x - 4) % 20 < 12 && (y - 4) % 17 < 10
+    );
+    const { grid } = detectGrid(image);
+    expect(grid).toEqual({ width: 12, height: 10, marginX: 4, marginY: 4, spacingX: 8, spacingY: 7 });
+
+    const rects = calculateGridRects(image.width, image.height, grid);
+    expect(rects).toHaveLength(8);
+    expect(rects[5]).toMatchObject({ x: 24, y: 21, w: 12, h: 10 });
+  });
+
+  it('leaves spacing at 0 on an axis without gutters', () => {
+    // Columns of sprites with 5px gaps, joined top to bottom by a 1px line
+    const image = sheet(64, 16, (x, y) => (x % 16 > 2 && x % 16 < 14 && y > 1 && y < 14) || x % 16 === 8);
+    const { grid } = detectGrid(image);
+    expect(grid).toMatchObject({ width: 11, marginX: 3, spacingX: 5, height: 16, spacingY: 0 });
+  });
+});
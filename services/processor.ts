@@ -1,4 +1,6 @@
-import { Rect, AppSettings, FrameData } from '../types';
+import { Rect, AppSettings, ExtractedFrame } from '../types';
+import { traceOutline } from './polygon';
+import { keyDistance } from './colorDistance';
 
 // Convert Hex to RGB
 export const hexToRgb = (hex: string) => {
@@ -24,6 +26,7 @@ export const calculateGridRects = (
   let x = marginX;
   let y = marginY;
   let idCounter = 0;
+  let row = 0;
 
   while (y + height <= imgHeight) {
     while (x + width <= imgWidth) {
@@ -32,29 +35,73 @@ export const calculateGridRects = (
         x,
         y,
         w: width,
-        h: height
+        h: height,
+        row
       });
       x += width + spacingX;
     }
     x = marginX;
     y += height + spacingY;
+    row++;
   }
   return rects;
 };
 
+type IslandBox = { minX: number; minY: number; maxX: number; maxY: number; first: number };
+
+// Repeatedly join boxes that overlap or are at most `distance` px apart
+// on both axes, until no more merges happen
+const mergeIslandBoxes = (boxes: IslandBox[], distance: number) => {
+  let current = boxes;
+  while (true) {
+    const sorted = [...current].sort((a, b) => a.minX - b.minX);
+    const parent = sorted.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+    for (let i = 0; i < sorted.length; i++) {
+      const a = sorted[i];
+      for (let j = i + 1; j < sorted.length; j++) {
+        const b = sorted[j];
+        // Sorted by minX, so nothing further right can be in range
+        if (b.minX - a.maxX - 1 > distance) break;
+        const gapY = Math.max(b.minY - a.maxY - 1, a.minY - b.maxY - 1);
+        if (gapY <= distance) parent[find(j)] = find(i);
+      }
+    }
+
+    const groups = new Map<number, IslandBox>();
+    sorted.forEach((box, i) => {
+      const root = find(i);
+      const g = groups.get(root);
+      if (!g) {
+        groups.set(root, { ...box });
+      } else {
+        g.minX = Math.min(g.minX, box.minX);
+        g.minY = Math.min(g.minY, box.minY);
+        g.maxX = Math.max(g.maxX, box.maxX);
+        g.maxY = Math.max(g.maxY, box.maxY);
+        g.first = Math.min(g.first, box.first);
+      }
+    });
+
+    const merged = Array.from(groups.values());
+    if (merged.length === current.length) return merged;
+    current = merged;
+  }
+};
+
 // Helper: Detect distinct islands of non-transparent pixels
 export const detectIslands = (
   imageData: ImageData, 
-  minWidth: number = 2, 
-  minHeight: number = 2
+  options: AppSettings['islands']
 ): Rect[] => {
   const { width, height, data } = imageData;
+  const { minWidth, minHeight, alphaThreshold, connectivity, mergeDistance } = options;
   const visited = new Uint8Array(width * height); // 0 = unvisited, 1 = visited
-  const rects: Rect[] = [];
-  let idCounter = 0;
+  const boxes: IslandBox[] = [];
 
-  // Helper to check if pixel is transparent (Alpha == 0)
-  const isTransparent = (idx: number) => data[idx * 4 + 3] === 0;
+  // Helper to check if pixel counts as empty (alpha at or below the threshold)
+  const isTransparent = (idx: number) => data[idx * 4 + 3] <= alphaThreshold;
 
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
@@ -77,14 +124,27 @@ export const detectIslands = (
         if (cy < minY) minY = cy;
         if (cy > maxY) maxY = cy;
 
+        const hasLeft = cx > 0;
+        const hasRight = cx < width - 1;
+
         // Check 4 neighbors
         const neighbors = [
           curr - width, // up
           curr + width, // down
-          (cx > 0) ? curr - 1 : -1, // left
-          (cx < width - 1) ? curr + 1 : -1 // right
+          hasLeft ? curr - 1 : -1, // left
+          hasRight ? curr + 1 : -1 // right
         ];
 
+        // ...plus diagonals for 8-connectivity
+        if (connectivity === 8) {
+          neighbors.push(
+            hasLeft ? curr - width - 1 : -1, // up-left
+            hasRight ? curr - width + 1 : -1, // up-right
+            hasLeft ? curr + width - 1 : -1, // down-left
+            hasRight ? curr + width + 1 : -1 // down-right
+          );
+        }
+
         for (const n of neighbors) {
           if (n >= 0 && n < visited.length && !visited[n] && !isTransparent(n)) {
             visited[n] = 1;
@@ -93,22 +153,297 @@ export const detectIslands = (
         }
       }
 
-      const w = maxX - minX + 1;
-      const h = maxY - minY + 1;
-
-      // Filter by min size
-      if (w >= minWidth && h >= minHeight) {
-        rects.push({
-          id: `island-${idCounter++}`,
-          x: minX,
-          y: minY,
-          w,
-          h
-        });
+      boxes.push({ minX, minY, maxX, maxY, first: idx });
+    }
+  }
+
+  // Merge before filtering so small detached bits join their sprite instead of
+  // vanishing; a distance of 0 turns merging off, even for touching boxes
+  const merged = mergeDistance > 0 ? mergeIslandBoxes(boxes, mergeDistance) : boxes;
+
+  // Scan order (by each island's first pixel) is the starting point for sorting
+  merged.sort((a, b) => a.first - b.first);
+
+  const rects: Rect[] = [];
+  for (const box of merged) {
+    const w = box.maxX - box.minX + 1;
+    const h = box.maxY - box.minY + 1;
+
+    // Filter by min size
+    if (w >= minWidth && h >= minHeight) {
+      rects.push({ id: '', x: box.minX, y: box.minY, w, h });
+    }
+  }
+
+  // IDs follow the final order
+  return sortIslands(rects, options.order).map((r, i) => ({ ...r, id: `island-${i}` }));
+};
+
+// Cluster rects into lines along one axis: a rect joins the current line when
+// it overlaps the line's extent by at least half of the smaller of the two
+const clusterLines = (rects: Rect[], vertical: boolean) => {
+  const start = (r: Rect) => (vertical ? r.y : r.x);
+  const size = (r: Rect) => (vertical ? r.h : r.w);
+
+  const lines: { min: number; max: number; rects: Rect[] }[] = [];
+  for (const r of [...rects].sort((a, b) => start(a) - start(b))) {
+    const line = lines[lines.length - 1];
+    if (line) {
+      const overlap = Math.min(line.max, start(r) + size(r)) - Math.max(line.min, start(r));
+      if (overlap >= Math.min(line.max - line.min, size(r)) / 2) {
+        line.max = Math.max(line.max, start(r) + size(r));
+        line.rects.push(r);
+        continue;
       }
     }
+    lines.push({ min: start(r), max: start(r) + size(r), rects: [r] });
   }
-  return rects;
+  return lines.map(l => l.rects);
+};
+
+// Reading-order sort: rows top-to-bottom (each left-to-right or right-to-left),
+// or columns left-to-right read top-to-bottom. Each rect records its line in `row`.
+export const sortIslands = (
+  rects: Rect[],
+  order: AppSettings['islands']['order']
+): Rect[] => {
+  if (order === 'scan') return rects;
+
+  const columnMajor = order === 'columns';
+  const lines = clusterLines(rects, !columnMajor);
+
+  return lines.flatMap((line, row) => {
+    const sorted = [...line].sort((a, b) => (columnMajor ? a.y - b.y : a.x - b.x));
+    if (order === 'rows-rtl') sorted.reverse();
+    return sorted.map(r => ({ ...r, row }));
+  });
+};
+
+export interface GridDetection {
+  grid: AppSettings['grid'];
+  confidence: number; // 0..1
+}
+
+type AxisDetection = { size: number; margin: number; spacing: number; confidence: number };
+
+const MIN_CELL_SIZE = 4;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Choose a cell offset among those sharing the best score. Offsets wrap
+// around the cell size, so equal-scoring offsets form circular runs; we take
+// the longest run and, within it, the offset that fits the most whole cells,
+// breaking ties towards the middle so boundaries sit centred in the gutters.
+const pickOffset = (
+  scores: number[],
+  dim: number,
+  better: (a: number, b: number) => boolean
+) => {
+  const size = scores.length;
+  let best = scores[0];
+  for (const s of scores) if (better(s, best)) best = s;
+
+  const runs: number[][] = [];
+  let current: number[] = [];
+  for (let m = 0; m < size; m++) {
+    if (scores[m] === best) {
+      current.push(m);
+    } else if (current.length > 0) {
+      runs.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) {
+    // Join a run touching the end with one starting at offset 0
+    if (runs.length > 0 && runs[0][0] === 0 && current.length < size) {
+      runs[0] = [...current, ...runs[0]];
+    } else {
+      runs.push(current);
+    }
+  }
+
+  const run = runs.reduce((a, b) => (b.length > a.length ? b : a));
+  const mid = (run.length - 1) / 2;
+  const byCentre = run.map((m, i) => ({ m, d: Math.abs(i - mid) })).sort((a, b) => a.d - b.d);
+  const cells = (m: number) => Math.floor((dim - m) / size);
+
+  let offset = byCentre[0].m;
+  for (const { m } of byCentre) {
+    if (cells(m) > cells(offset)) offset = m;
+  }
+  return { offset, score: best };
+};
+
+// Score every offset (margin) for a cell size along one axis.
+// - gutter: fraction of cell boundaries no sprite straddles
+// - density: content sitting on boundaries (lower is better)
+// Both penalise content left outside the whole cells, so offsets that
+// would cut off the first or last sprites lose out.
+const scoreOffsets = (profile: Uint32Array, size: number) => {
+  const dim = profile.length;
+  const contentPrefix = new Uint32Array(dim + 1);
+  const sumPrefix = new Float64Array(dim + 1);
+  for (let i = 0; i < dim; i++) {
+    contentPrefix[i + 1] = contentPrefix[i] + (profile[i] > 0 ? 1 : 0);
+    sumPrefix[i + 1] = sumPrefix[i] + profile[i];
+  }
+  const totalContent = Math.max(1, contentPrefix[dim]);
+
+  const gutter: number[] = [];
+  const density: number[] = [];
+  for (let m = 0; m < size; m++) {
+    const cells = Math.floor((dim - m) / size);
+    if (cells === 0) {
+      gutter.push(-Infinity);
+      density.push(Infinity);
+      continue;
+    }
+    const end = m + cells * size;
+    const lostLines = contentPrefix[m] + (contentPrefix[dim] - contentPrefix[end]);
+    const lostSum = sumPrefix[m] + (sumPrefix[dim] - sumPrefix[end]);
+
+    let hits = 0, onBoundary = 0;
+    for (let b = m; b <= end; b += size) {
+      // Image edges are free boundaries
+      if (b === 0 || b >= dim) { hits++; continue; }
+      if (profile[b] === 0 || profile[b - 1] === 0) hits++;
+      onBoundary += Math.min(profile[b], profile[b - 1]);
+    }
+    gutter.push(hits / (cells + 1) - lostLines / totalContent);
+    density.push(onBoundary + lostSum);
+  }
+  return { gutter, density };
+};
+
+// Split a pitch into cell and spacing: the gutter is the empty band every
+// inner cell boundary falls in, and the cells start right after it.
+// Returns a pitch-sized result unchanged when any boundary cuts content.
+const splitGutter = (profile: Uint32Array, pitch: number, margin: number, confidence: number): AxisDetection => {
+  const dim = profile.length;
+  const whole = { size: pitch, margin, spacing: 0, confidence };
+  let minRun = Infinity, minBefore = Infinity, minAfter = Infinity;
+  for (let b = margin + pitch; b + pitch <= dim; b += pitch) {
+    if (profile[b] > 0 && profile[b - 1] > 0) return whole;
+    let start = b;
+    while (start > 0 && profile[start - 1] === 0) start--;
+    let end = b;
+    while (end < dim && profile[end] === 0) end++;
+    minRun = Math.min(minRun, end - start);
+    minBefore = Math.min(minBefore, b - start);
+    minAfter = Math.min(minAfter, end - b);
+  }
+  if (minRun === Infinity) return whole; // A single cell has no inner boundary
+
+  const spacing = Math.min(minRun, minBefore + minAfter, pitch - MIN_CELL_SIZE);
+  if (spacing <= 0) return whole;
+  const shift = Math.max(0, spacing - minBefore);
+  return { size: pitch - spacing, margin: margin + shift, spacing, confidence };
+};
+
+// Detect cell size and margin along one axis from a per-line content count
+const detectGridAxis = (profile: Uint32Array): AxisDetection => {
+  const dim = profile.length;
+
+  // 1. Gutters: fully empty lines between content runs
+  const runs: { start: number; end: number }[] = [];
+  for (let i = 0; i < dim; i++) {
+    if (profile[i] === 0) continue;
+    const start = i;
+    while (i < dim && profile[i] > 0) i++;
+    runs.push({ start, end: i - 1 });
+  }
+
+  if (runs.length >= 2) {
+    const centers = runs.map(r => (r.start + r.end) / 2);
+    const pitch = Math.round(median(centers.slice(1).map((c, i) => c - centers[i])));
+
+    if (pitch >= MIN_CELL_SIZE) {
+      // Refine the pitch by how well its cell boundaries fall into gutters
+      let result: AxisDetection | null = null;
+      for (let size = Math.max(MIN_CELL_SIZE, pitch - 2); size <= Math.min(dim, pitch + 2); size++) {
+        const { offset, score } = pickOffset(scoreOffsets(profile, size).gutter, dim, (a, b) => a > b);
+        const closer = result && Math.abs(size - pitch) < Math.abs(result.size - pitch);
+        if (!result || score > result.confidence || (score === result.confidence && closer)) {
+          result = { size, margin: offset, spacing: 0, confidence: Math.max(0, score) };
+        }
+      }
+      if (result) return splitGutter(profile, result.size, result.margin, result.confidence);
+    }
+  }
+
+  // 2. No gutters: autocorrelation of the content profile
+  let mean = 0;
+  for (let i = 0; i < dim; i++) mean += profile[i];
+  mean /= dim;
+  const centered = Array.from(profile, v => v - mean);
+  let energy = 0;
+  for (const v of centered) energy += v * v;
+
+  // Nothing repeats: the whole axis is a single cell
+  const singleCell = { size: dim, margin: 0, spacing: 0, confidence: runs.length === 1 ? 0.5 : 0 };
+
+  const maxLag = Math.floor(dim / 2);
+  if (energy === 0 || maxLag < MIN_CELL_SIZE) return singleCell;
+
+  const corr: number[] = [];
+  for (let lag = MIN_CELL_SIZE - 1; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < dim; i++) sum += centered[i] * centered[i + lag];
+    corr.push((sum / energy) * (dim / (dim - lag))); // Compensate for the shrinking overlap
+  }
+
+  // Only true peaks count; the slope falling away from lag 0 is not periodicity
+  const peaks: number[] = [];
+  for (let i = 1; i < corr.length - 1; i++) {
+    if (corr[i] > corr[i - 1] && corr[i] >= corr[i + 1]) peaks.push(i);
+  }
+  if (peaks.length === 0) return singleCell;
+  const peak = Math.max(...peaks.map(i => corr[i]));
+  if (peak < 0.2) return singleCell;
+
+  // Smallest peak close to the strongest, so multiples of the pitch lose out
+  const lagIdx = peaks.find(i => corr[i] >= peak * 0.85)!;
+  const size = lagIdx + MIN_CELL_SIZE - 1;
+
+  // Boundaries go where the least content gets cut
+  const { offset } = pickOffset(scoreOffsets(profile, size).density, dim, (a, b) => a < b);
+
+  return splitGutter(profile, size, offset, Math.max(0, Math.min(1, corr[lagIdx])));
+};
+
+// Propose grid settings from the image: gutters of empty rows/columns first,
+// falling back to autocorrelation when sprites are packed edge to edge.
+// Apply the color key to imageData beforehand so solid backgrounds count as empty.
+export const detectGrid = (imageData: ImageData): GridDetection => {
+  const { width, height, data } = imageData;
+  const cols = new Uint32Array(width);
+  const rows = new Uint32Array(height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      cols[x]++;
+      rows[y]++;
+    }
+  }
+
+  const xAxis = detectGridAxis(cols);
+  const yAxis = detectGridAxis(rows);
+
+  return {
+    grid: {
+      width: xAxis.size,
+      height: yAxis.size,
+      marginX: xAxis.margin,
+      marginY: yAxis.margin,
+      spacingX: xAxis.spacing,
+      spacingY: yAxis.spacing
+    },
+    confidence: (xAxis.confidence + yAxis.confidence) / 2
+  };
 };
 
 // Helper: Scan alpha to find bounding box
@@ -137,28 +472,21 @@ export const applyColorKeyToImageData = (
   imageData: ImageData,
   targetColor: { r: number; g: number; b: number },
   tolerance: number,
-  feather: number
+  feather: number,
+  metric: AppSettings['processing']['colorKeyMetric'] = 'rgb'
 ) => {
   const { data } = imageData;
   const tol = Math.max(0, tolerance);
   const featherPx = Math.max(0, feather);
-  const tolSq = tol * tol;
-  const featherSq = (tol + featherPx) * (tol + featherPx);
+  const distance = keyDistance(targetColor, metric);
 
   for (let i = 0; i < data.length; i += 4) {
-    const r = data[i];
-    const g = data[i+1];
-    const b = data[i+2];
-    
-    // Simple Euclidean distance squared
-    const distSq = Math.pow(r - targetColor.r, 2) + 
-                   Math.pow(g - targetColor.g, 2) + 
-                   Math.pow(b - targetColor.b, 2);
+    if (data[i+3] === 0) continue; // Already removed
+    const dist = distance(data[i], data[i+1], data[i+2]);
 
-    if (distSq <= tolSq) {
+    if (dist <= tol) {
       data[i+3] = 0; // Set alpha to 0
-    } else if (featherPx > 0 && distSq <= featherSq) {
-      const dist = Math.sqrt(distSq);
+    } else if (featherPx > 0 && dist <= tol + featherPx) {
       const t = (dist - tol) / featherPx; // 0..1
       data[i+3] = Math.round(data[i+3] * t);
     }
@@ -169,44 +497,277 @@ export const applyColorKeysToImageData = (
   imageData: ImageData,
   targetColors: { r: number; g: number; b: number }[],
   tolerance: number,
-  feather: number
+  feather: number,
+  metric: AppSettings['processing']['colorKeyMetric'] = 'rgb'
 ) => {
   if (targetColors.length === 0) return;
   for (const color of targetColors) {
-    applyColorKeyToImageData(imageData, color, tolerance, feather);
+    applyColorKeyToImageData(imageData, color, tolerance, feather, metric);
+  }
+};
+
+// Key only background connected to the image border: a flood fill from every
+// edge pixel through key-colored (or already transparent) pixels, so the same
+// color enclosed by a sprite survives. Feathering only touches pixels bordering
+// the removed region.
+export const applyContiguousColorKeys = (
+  imageData: ImageData,
+  targetColors: { r: number; g: number; b: number }[],
+  tolerance: number,
+  feather: number,
+  metric: AppSettings['processing']['colorKeyMetric'] = 'rgb'
+) => {
+  if (targetColors.length === 0) return;
+  const { data, width, height } = imageData;
+  const tol = Math.max(0, tolerance);
+  const featherPx = Math.max(0, feather);
+  const distances = targetColors.map(c => keyDistance(c, metric));
+
+  // Distance to the closest key color
+  const distance = (p: number) => {
+    const i = p * 4;
+    let best = Infinity;
+    for (const d of distances) best = Math.min(best, d(data[i], data[i + 1], data[i + 2]));
+    return best;
+  };
+
+  const removed = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  let top = 0;
+  const visit = (x: number, y: number) => {
+    const p = y * width + x;
+    if (removed[p] || (data[p * 4 + 3] !== 0 && distance(p) > tol)) return;
+    removed[p] = 1;
+    stack[top++] = p;
+  };
+
+  for (let x = 0; x < width; x++) {
+    visit(x, 0);
+    visit(x, height - 1);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(0, y);
+    visit(width - 1, y);
+  }
+  while (top > 0) {
+    const p = stack[--top];
+    const x = p % width;
+    const y = (p - x) / width;
+    if (x > 0) visit(x - 1, y);
+    if (x < width - 1) visit(x + 1, y);
+    if (y > 0) visit(x, y - 1);
+    if (y < height - 1) visit(x, y + 1);
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (removed[p]) {
+        data[p * 4 + 3] = 0;
+        continue;
+      }
+      if (featherPx === 0) continue;
+      let touches = false;
+      for (let dy = -1; dy <= 1 && !touches; dy++) {
+        for (let dx = -1; dx <= 1 && !touches; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          touches = nx >= 0 && ny >= 0 && nx < width && ny < height && removed[ny * width + nx] === 1;
+        }
+      }
+      if (!touches) continue;
+      const dist = distance(p);
+      if (dist <= tol + featherPx) {
+        const t = Math.max(0, (dist - tol) / featherPx); // 0..1
+        data[p * 4 + 3] = Math.round(data[p * 4 + 3] * t);
+      }
+    }
+  }
+};
+
+// Matte choke: shrink the alpha by `pixels`, eroding one 4-connected step at a
+// time. Pixels outside the image don't count, so sprites touching the edge keep it.
+const chokeAlpha = (imageData: ImageData, pixels: number) => {
+  const { data, width, height } = imageData;
+  const alpha = new Uint8ClampedArray(width * height);
+  for (let step = 0; step < pixels; step++) {
+    for (let p = 0; p < alpha.length; p++) alpha[p] = data[p * 4 + 3];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        let a = alpha[p];
+        if (a === 0) continue;
+        if (x > 0) a = Math.min(a, alpha[p - 1]);
+        if (x < width - 1) a = Math.min(a, alpha[p + 1]);
+        if (y > 0) a = Math.min(a, alpha[p - width]);
+        if (y < height - 1) a = Math.min(a, alpha[p + width]);
+        data[p * 4 + 3] = a;
+      }
+    }
+  }
+};
+
+// Despill: pull the key color's tint out of edge pixels (partly transparent or
+// next to a transparent one) by removing their chroma along each key's hue.
+// Strength 0-1; interior pixels of the same hue are left alone.
+const despillEdges = (
+  imageData: ImageData,
+  targetColors: { r: number; g: number; b: number }[],
+  strength: number
+) => {
+  const { data, width, height } = imageData;
+  const keys = targetColors
+    .map(c => {
+      const grey = (c.r + c.g + c.b) / 3;
+      const v = [c.r - grey, c.g - grey, c.b - grey];
+      const len = Math.hypot(v[0], v[1], v[2]);
+      return len > 0 ? v.map(n => n / len) : null;
+    })
+    .filter((v): v is number[] => !!v); // Grey keys carry no tint
+  if (keys.length === 0) return;
+
+  const isEdge = (x: number, y: number) => {
+    const a = data[(y * width + x) * 4 + 3];
+    if (a === 0) return false;
+    if (a < 255) return true;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx >= 0 && ny >= 0 && nx < width && ny < height && data[(ny * width + nx) * 4 + 3] === 0) return true;
+      }
+    }
+    return false;
+  };
+
+  const edges: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isEdge(x, y)) edges.push((y * width + x) * 4);
+    }
+  }
+  for (const i of edges) {
+    for (const k of keys) {
+      const grey = (data[i] + data[i + 1] + data[i + 2]) / 3;
+      const spill = (data[i] - grey) * k[0] + (data[i + 1] - grey) * k[1] + (data[i + 2] - grey) * k[2];
+      if (spill <= 0) continue;
+      for (let c = 0; c < 3; c++) data[i + c] -= spill * k[c] * strength;
+    }
+  }
+};
+
+type Bounds = { x: number; y: number; w: number; h: number };
+
+// Exact 64-bit hash of the pixels inside bounds. Fully transparent pixels
+// hash the same whatever their color channels hold.
+const hashPixels = (imageData: ImageData, b: Bounds) => {
+  const { data, width } = imageData;
+  let h1 = 0x811c9dc5;
+  let h2 = 0x9747b28c;
+  for (let y = b.y; y < b.y + b.h; y++) {
+    for (let x = b.x; x < b.x + b.w; x++) {
+      const i = (y * width + x) * 4;
+      const visible = data[i + 3] !== 0;
+      for (let k = 0; k < 4; k++) {
+        const v = visible ? data[i + k] : 0;
+        h1 = Math.imul(h1 ^ v, 0x01000193);
+        h2 = Math.imul(h2 ^ v, 0x5bd1e995);
+        h2 ^= h2 >>> 15;
+      }
+    }
   }
+  return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0');
 };
 
+// 64-bit difference hash: shrink to 9x8 luminance (alpha-weighted) and
+// record whether each cell is brighter than its right neighbour
+const perceptualHash = (imageData: ImageData, b: Bounds) => {
+  const { data, width } = imageData;
+  const cols = 9, rows = 8;
+  const lum = new Float32Array(cols * rows);
+  for (let cy = 0; cy < rows; cy++) {
+    const y0 = b.y + Math.floor((cy * b.h) / rows);
+    const y1 = Math.max(y0 + 1, b.y + Math.floor(((cy + 1) * b.h) / rows));
+    for (let cx = 0; cx < cols; cx++) {
+      const x0 = b.x + Math.floor((cx * b.w) / cols);
+      const x1 = Math.max(x0 + 1, b.x + Math.floor(((cx + 1) * b.w) / cols));
+      let sum = 0, n = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * width + x) * 4;
+          sum += (data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114) * (data[i + 3] / 255);
+          n++;
+        }
+      }
+      lum[cy * cols + cx] = sum / n;
+    }
+  }
+
+  let hi = 0, lo = 0;
+  for (let cy = 0; cy < rows; cy++) {
+    for (let cx = 0; cx < cols - 1; cx++) {
+      const bit = lum[cy * cols + cx] > lum[cy * cols + cx + 1] ? 1 : 0;
+      const n = cy * (cols - 1) + cx;
+      if (n < 32) hi = (hi << 1) | bit;
+      else lo = (lo << 1) | bit;
+    }
+  }
+  return (hi >>> 0).toString(16).padStart(8, '0') + (lo >>> 0).toString(16).padStart(8, '0');
+};
+
+// Number of differing bits between two perceptual hashes
+export const hashDistance = (a: string, b: string) => {
+  let bits = 0;
+  for (const [s, e] of [[0, 8], [8, 16]]) {
+    let v = (parseInt(a.slice(s, e), 16) ^ parseInt(b.slice(s, e), 16)) >>> 0;
+    while (v) {
+      v &= v - 1;
+      bits++;
+    }
+  }
+  return bits;
+};
+
+// Apply the color keys configured in the processing settings, if enabled.
+// Contiguous keying floods from the border of whatever imageData covers:
+// a frame when extracting, the whole sheet for detection and the preview.
+export const applyColorKeySettings = (imageData: ImageData, processing: AppSettings['processing']) => {
+  if (!processing.colorKeyEnabled) return false;
+  const rgbs = processing.colorKeyColors
+    .map(hexToRgb)
+    .filter((c): c is { r: number; g: number; b: number } => !!c);
+  if (rgbs.length === 0) return false;
+  const { colorKeyTolerance, colorKeyFeather, colorKeyMetric } = processing;
+  if (processing.colorKeyMode === 'contiguous') {
+    applyContiguousColorKeys(imageData, rgbs, colorKeyTolerance, colorKeyFeather, colorKeyMetric);
+  } else {
+    applyColorKeysToImageData(imageData, rgbs, colorKeyTolerance, colorKeyFeather, colorKeyMetric);
+  }
+  // Choke first so despill works on the final edge
+  if (processing.colorKeyChoke > 0) chokeAlpha(imageData, processing.colorKeyChoke);
+  if (processing.colorKeyDespill > 0) despillEdges(imageData, rgbs, processing.colorKeyDespill / 100);
+  return true;
+};
+
+// Slice, key and trim one rect. Uses OffscreenCanvas so it also runs inside workers;
+// the caller creates the object URL on the thread that displays the frame.
 export const extractFrame = async (
-  sourceImage: HTMLImageElement,
+  source: CanvasImageSource,
   rect: Rect,
   settings: AppSettings
-): Promise<FrameData | null> => {
-  const canvas = document.createElement('canvas');
-  canvas.width = rect.w;
-  canvas.height = rect.h;
+): Promise<ExtractedFrame | null> => {
+  const canvas = new OffscreenCanvas(rect.w, rect.h);
   const ctx = canvas.getContext('2d');
   if (!ctx) return null;
 
   // 1. Draw initial slice
-  ctx.drawImage(sourceImage, rect.x, rect.y, rect.w, rect.h, 0, 0, rect.w, rect.h);
+  ctx.drawImage(source, rect.x, rect.y, rect.w, rect.h, 0, 0, rect.w, rect.h);
   
-  let imageData = ctx.getImageData(0, 0, rect.w, rect.h);
+  const imageData = ctx.getImageData(0, 0, rect.w, rect.h);
 
   // 2. Color Key
-  if (settings.processing.colorKeyEnabled) {
-    const rgbs = settings.processing.colorKeyColors
-      .map(hexToRgb)
-      .filter((c): c is { r: number; g: number; b: number } => !!c);
-    if (rgbs.length > 0) {
-      applyColorKeysToImageData(
-        imageData,
-        rgbs,
-        settings.processing.colorKeyTolerance,
-        settings.processing.colorKeyFeather
-      );
-      ctx.putImageData(imageData, 0, 0);
-    }
+  if (applyColorKeySettings(imageData, settings.processing)) {
+    ctx.putImageData(imageData, 0, 0);
   }
 
   // 3. Scan for content
@@ -219,53 +780,50 @@ export const extractFrame = async (
     return null; 
   }
 
-  // 4. Auto Trim
-  let finalRect = { x: 0, y: 0, w: rect.w, h: rect.h };
-  let trimOffset = { x: 0, y: 0 };
-  let trimmedSize = { w: rect.w, h: rect.h };
+  // Hashes of the final (trimmed) pixels, used to spot duplicate frames
+  const hashBounds = settings.processing.autoTrim ? bounds : { x: 0, y: 0, w: rect.w, h: rect.h };
+  const pixelHash = hashPixels(imageData, hashBounds);
+  const visualHash = perceptualHash(imageData, hashBounds);
+  // Only traced while polygon export is on; the frame cache hash includes the flag
+  const outline = settings.export.polygon.enabled ? traceOutline(imageData) : undefined;
 
+  // 4. Auto Trim
   if (settings.processing.autoTrim) {
-    // We already have bounds from step 3
-    
     // Create new smaller canvas for trimmed result
-    const trimmedCanvas = document.createElement('canvas');
-    trimmedCanvas.width = bounds.w;
-    trimmedCanvas.height = bounds.h;
+    const trimmedCanvas = new OffscreenCanvas(bounds.w, bounds.h);
     const tCtx = trimmedCanvas.getContext('2d');
     if (!tCtx) return null;
 
     // Draw the cropped region onto the new canvas
     tCtx.putImageData(imageData, -bounds.x, -bounds.y);
-    
-    trimOffset = { x: bounds.x, y: bounds.y };
-    trimmedSize = { w: bounds.w, h: bounds.h };
-    finalRect = bounds;
 
-    const blob = await new Promise<Blob | null>(r => trimmedCanvas.toBlob(r, 'image/png'));
-    if (!blob) return null;
+    const blob = await trimmedCanvas.convertToBlob({ type: 'image/png' });
     
     return {
       id: rect.id,
       blob,
-      url: URL.createObjectURL(blob),
       rect: rect,
-      trimOffset,
-      trimmedSize,
-      originalSize: { w: rect.w, h: rect.h }
+      trimOffset: { x: bounds.x, y: bounds.y },
+      trimmedSize: { w: bounds.w, h: bounds.h },
+      originalSize: { w: rect.w, h: rect.h },
+      pixelHash,
+      perceptualHash: visualHash,
+      outline
     };
   }
 
   // No trim, return original full-size frame
-  const blob = await new Promise<Blob | null>(r => canvas.toBlob(r, 'image/png'));
-  if (!blob) return null;
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
 
   return {
     id: rect.id,
     blob,
-    url: URL.createObjectURL(blob),
     rect: rect,
     trimOffset: { x: 0, y: 0 },
     trimmedSize: { w: rect.w, h: rect.h },
-    originalSize: { w: rect.w, h: rect.h }
+    originalSize: { w: rect.w, h: rect.h },
+    pixelHash,
+    perceptualHash: visualHash,
+    outline
   };
 };
@@ -0,0 +1,180 @@
+import { AppSettings, ExtractedFrame, Rect } from '../types';
+
+export type WorkerRequest =
+  | { type: 'image'; bitmap: ImageBitmap }
+  | { type: 'detect'; jobId: number; settings: AppSettings }
+  | { type: 'extract'; jobId: number; items: { rect: Rect; index: number }[]; settings: AppSettings }
+  | { type: 'cancel'; jobId: number };
+
+export type WorkerResponse =
+  | { type: 'islands'; jobId: number; rects: Rect[] }
+  | { type: 'frame'; jobId: number; index: number; frame: ExtractedFrame | null }
+  | { type: 'done'; jobId: number }
+  | { type: 'error'; jobId: number; message: string };
+
+interface Job {
+  id: number;
+  onMessage: (msg: WorkerResponse) => void;
+  cancel: () => void;
+}
+
+// Leave one core for the UI thread
+const defaultPoolSize = () =>
+  Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+// Runs island detection and frame extraction on background workers.
+// Only one job runs at a time: starting a new one cancels the previous job,
+// whose promise then resolves to null.
+export class ProcessingPool {
+  private workers: Worker[];
+  private image: HTMLImageElement | null = null;
+  private imageReady: Promise<void> = Promise.resolve();
+  private nextJobId = 1;
+  private job: Job | null = null;
+
+  constructor(size: number = defaultPoolSize()) {
+    this.workers = Array.from({ length: size }, () => this.spawn());
+  }
+
+  private spawn() {
+    const worker = new Worker(new URL('./processing.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      if (this.job && e.data.jobId === this.job.id) this.job.onMessage(e.data);
+    };
+    return worker;
+  }
+
+  // Send the sheet to workers as ImageBitmaps, chained so a slow decode can
+  // never overwrite a newer image
+  private queueImage(workers: () => Worker[], image: HTMLImageElement) {
+    const ready = this.imageReady.then(() =>
+      Promise.all(workers().map(async worker => {
+        const bitmap = await createImageBitmap(image);
+        const msg: WorkerRequest = { type: 'image', bitmap };
+        worker.postMessage(msg, [bitmap]);
+      }))
+    ).then(() => undefined);
+    // A failed decode must not poison every later job; the next call retries
+    this.imageReady = ready.catch(() => {
+      if (this.image !== image) return; // A newer image already chained on
+      this.image = null;
+      this.imageReady = Promise.resolve();
+    });
+    return ready;
+  }
+
+  // Hand every worker its own copy of the sheet, transferred as an ImageBitmap
+  private ensureImage(image: HTMLImageElement) {
+    if (image !== this.image) {
+      this.image = image;
+      return this.queueImage(() => this.workers, image);
+    }
+    return this.imageReady;
+  }
+
+  // Island detection is one long synchronous call that never sees a cancel
+  // message, so its worker is replaced instead and handed the current sheet
+  private restartWorker(index: number) {
+    this.workers[index].terminate();
+    const worker = this.spawn();
+    this.workers[index] = worker;
+    if (this.image) this.queueImage(() => [worker], this.image);
+  }
+
+  private post(worker: Worker, msg: WorkerRequest) {
+    worker.postMessage(msg);
+  }
+
+  private start<T>(
+    image: HTMLImageElement,
+    dispatch: (jobId: number) => void,
+    onMessage: (msg: WorkerResponse, finish: (result: T) => void) => void,
+    abort?: () => void
+  ): Promise<T | null> {
+    this.cancel();
+    const id = this.nextJobId++;
+
+    return new Promise<T | null>((resolve, reject) => {
+      const settle = (fn: () => void) => {
+        if (this.job?.id !== id) return;
+        this.job = null;
+        fn();
+      };
+      const finish = (result: T | null) => settle(() => resolve(result));
+      const fail = (err: unknown) => settle(() => reject(err));
+
+      this.job = {
+        id,
+        onMessage: msg => {
+          if (msg.type === 'error') fail(new Error(msg.message));
+          else onMessage(msg, finish);
+        },
+        cancel: () => {
+          if (abort) abort();
+          else this.workers.forEach(w => this.post(w, { type: 'cancel', jobId: id }));
+          finish(null);
+        }
+      };
+
+      this.ensureImage(image).then(() => {
+        if (this.job?.id === id) dispatch(id);
+      }, fail);
+    });
+  }
+
+  cancel() {
+    this.job?.cancel();
+  }
+
+  detectIslands(image: HTMLImageElement, settings: AppSettings) {
+    return this.start<Rect[]>(
+      image,
+      jobId => this.post(this.workers[0], { type: 'detect', jobId, settings }),
+      (msg, finish) => {
+        if (msg.type === 'islands') finish(msg.rects);
+      },
+      () => this.restartWorker(0)
+    );
+  }
+
+  // Extract frames aligned with rects (null for empty ones). Rects are dealt out
+  // round-robin so every worker gets a similar share of the sheet.
+  extractFrames(
+    image: HTMLImageElement,
+    rects: Rect[],
+    settings: AppSettings,
+    onProgress: (done: number, total: number) => void
+  ) {
+    const results: (ExtractedFrame | null)[] = new Array(rects.length).fill(null);
+    const batches = this.workers
+      .map((_, w) => rects.flatMap((rect, index) => (index % this.workers.length === w ? [{ rect, index }] : [])))
+      .map((items, w) => ({ worker: this.workers[w], items }))
+      .filter(b => b.items.length > 0);
+    let done = 0;
+    let finishedBatches = 0;
+
+    if (batches.length === 0) {
+      this.cancel();
+      return Promise.resolve(results);
+    }
+
+    return this.start<(ExtractedFrame | null)[]>(
+      image,
+      jobId => batches.forEach(b => this.post(b.worker, { type: 'extract', jobId, items: b.items, settings })),
+      (msg, finish) => {
+        if (msg.type === 'frame') {
+          results[msg.index] = msg.frame;
+          onProgress(++done, rects.length);
+        } else if (msg.type === 'done' && ++finishedBatches === batches.length) {
+          finish(results);
+        }
+      }
+    );
+  }
+
+  dispose() {
+    this.cancel();
+    this.workers.forEach(w => w.terminate());
+    this.workers = [];
+  }
+}
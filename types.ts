@@ -4,6 +4,41 @@ export interface Rect {
   y: number;
   w: number;
   h: number;
+  name?: string; // Set when restored from imported metadata
+  row?: number; // Reading-order line of a detected island (a column in column-major order)
+}
+
+// Sprite origin, normalized to the untrimmed frame: 0,0 top-left, 1,1 bottom-right
+export interface Pivot {
+  x: number;
+  y: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Nine-slice insets in px from each edge of the untrimmed frame
+export interface NineSlice {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export type CollisionBoxType = 'hitbox' | 'hurtbox' | 'pushbox';
+
+// Named collision box in frame-local coordinates: relative to the untrimmed
+// rect's top-left, so auto-trim never moves it
+export interface CollisionBox {
+  id: string;
+  name: string;
+  type: CollisionBoxType;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
 }
 
 export interface FrameData {
@@ -14,8 +49,27 @@ export interface FrameData {
   trimOffset?: { x: number; y: number };
   trimmedSize?: { w: number; h: number };
   originalSize?: { w: number; h: number };
+  // Hashes of the final pixels, for duplicate detection
+  pixelHash?: string;
+  perceptualHash?: string;
+  duration?: number; // ms; unset frames last 1000 / fps
+  pivot?: Pivot; // Per-frame override of export.pivot
+  boxes?: CollisionBox[];
+  border?: NineSlice;
+  outline?: Point[]; // Traced alpha outline in untrimmed frame pixels while polygon export is on, see services/polygon
 }
 
+// A frame as produced by the processing workers, before it gets an object URL
+export type ExtractedFrame = Omit<FrameData, 'url'>;
+
+export interface ProcessingProgress {
+  stage: 'detecting' | 'extracting';
+  done: number;
+  total: number;
+}
+
+export type ExportFormat = 'spriteslice' | 'aseprite' | 'godot' | 'unity' | 'css' | 'libgdx' | 'cocos' | 'sparrow';
+
 export interface AppSettings {
   mode: 'grid' | 'manual' | 'islands';
   grid: {
@@ -29,22 +83,87 @@ export interface AppSettings {
   islands: {
     minWidth: number;
     minHeight: number;
+    alphaThreshold: number; // Pixels with alpha <= this count as empty
+    connectivity: 4 | 8;
+    mergeDistance: number; // Join islands whose boxes are within this many px
+    order: 'scan' | 'rows' | 'rows-rtl' | 'columns';
   };
   processing: {
     autoTrim: boolean;
     colorKeyEnabled: boolean;
     colorKeyColors: string[]; // Hex list
+    colorKeyMode: 'global' | 'contiguous'; // Every matching pixel, or only background reachable from the edges
+    colorKeyMetric: 'rgb' | 'hsv' | 'lab'; // Color distance the tolerance is measured in
     colorKeyTolerance: number; // 0-255
     colorKeyFeather: number; // 0-50
+    colorKeyDespill: number; // 0-100 %, strips key tint from edge pixels
+    colorKeyChoke: number; // px to shrink the alpha by after keying
   };
   export: {
     fps: number;
     prefix: string;
+    loop: boolean;
+    layout: 'frames' | 'atlas';
+    format: ExportFormat;
+    asepriteLayout: 'hash' | 'array';
+    cssAnimation: boolean;
+    animationPerRow: boolean;
+    dedupe: boolean; // Store identical frames' image once
+    dedupeTolerance: number; // Perceptual hash bits that may differ, 0 = exact only
+    pivot: Pivot; // Default pivot for frames without their own
+    polygon: {
+      enabled: boolean; // Export collision polygons as `vertices`
+      tolerance: number; // Douglas-Peucker distance in px
+      shape: 'outline' | 'convex' | 'decompose';
+      maxVertices: number; // Per polygon; Box2D allows 8
+    };
+    atlas: {
+      maxSize: number;
+      padding: number;
+      powerOfTwo: boolean;
+    };
   }
 }
 
+export type AnimationDirection = 'forward' | 'reverse' | 'pingpong';
+
+// A named animation over generated frames, referenced by frame id
+export interface AnimationTag {
+  id: string;
+  name: string;
+  frameIds: string[]; // In playback order
+  direction: AnimationDirection;
+  loop: number; // Times to play, 0 = forever
+  fps: number;
+}
+
 export interface ProjectState {
   imageBlob: Blob | null;
   settings: AppSettings;
   manualRects: Rect[];
+  animations?: AnimationTag[]; // Missing in projects saved before tags existed
+  frameDurations?: Record<string, number>; // Per-frame duration overrides in ms, by frame id
+  pivots?: Record<string, Pivot>; // Per-frame pivot overrides, by frame id
+  collisionBoxes?: Record<string, CollisionBox[]>; // By frame id
+  borders?: Record<string, NineSlice>; // Nine-slice insets, by frame id
+}
+
+// A frame as laid out in the exported files
+export interface ExportFrame {
+  frame: FrameData;
+  filename: string;
+  page: number;
+  // Region of the trimmed image inside its page
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  duplicateOf?: string; // Filename of the frame whose image this one reuses
+}
+
+export interface ExportPage {
+  filename: string;
+  width: number;
+  height: number;
+  blob: Blob;
 }